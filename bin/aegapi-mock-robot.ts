@@ -0,0 +1,331 @@
+// Homebridge plugin for AEG RX 9 / Electrolux Pure i9 robot vacuum
+// Copyright © 2026 Alexander Thoukydides
+
+import { Appliance } from '../src/aegapi-types.js';
+import { RX91ApplianceStateReported, RX92ApplianceStateReported, RX92PowerMode,
+         RX9ApplianceInfo, RX9ApplianceState, RX9BatteryStatus, RX9CleaningCommand,
+         RX9Dustbin, RX9Message, RX9RobotStatus } from '../src/aegapi-rx9-types.js';
+import { checkers } from '../src/ti/aegapi-rx9-types.js';
+
+// Supported robot models
+export type MockRX9Model = 'rx91' | 'rx92';
+
+// Reported state that can be modified (union of RX9.1 and RX9.2 fields)
+export type MockRX9Reported = Partial<Omit<RX91ApplianceStateReported, 'ecoMode'>
+                                    & Omit<RX92ApplianceStateReported, 'powerMode'>
+                                    & { ecoMode: boolean; powerMode: RX92PowerMode }>;
+
+// Top-level state that can be modified
+export interface MockRX9Update {
+    connectionState?:   RX9ApplianceState['connectionState'];
+    status?:            RX9ApplianceState['status'];
+    reported?:          MockRX9Reported;
+}
+
+// Durations of simulated robot activities
+export interface MockRX9Timing {
+    cleaning:           number; // milliseconds
+    returning:          number; // milliseconds
+    charging:           number; // milliseconds
+}
+
+// Options for creating a simulated robot
+export interface MockRX9RobotOptions {
+    model?:             MockRX9Model;
+    name?:              string;
+    serialNumber?:      string;
+    timing?:            Partial<MockRX9Timing>;
+}
+
+// Model-specific static details
+const MODELS: Record<MockRX9Model, { pnc: string; variant: string; colour: string }> = {
+    rx91: { pnc: '900277268', variant: 'IBM', colour: 'INDIGOBLUE' },
+    rx92: { pnc: '900277479', variant: 'M2',  colour: 'SHALEGREY'  }
+};
+
+// Default durations of simulated robot activities
+const DEFAULT_TIMING: MockRX9Timing = {
+    cleaning:   60 * 1000,  // (1 minute)
+    returning:  10 * 1000,  // (10 seconds)
+    charging:   30 * 1000   // (30 seconds)
+};
+
+// Languages supported by the robot's voice prompts
+const AVAILABLE_LANGUAGES = ['ces', 'dan', 'deu', 'eng', 'fin', 'fra', 'ita',
+                             'nld', 'nor', 'pol', 'por', 'rus', 'spa', 'swe'];
+
+// Mapping of robot states when cleaning is paused or resumed
+const PAUSED: Partial<Record<RX9RobotStatus, RX9RobotStatus>> = {
+    [RX9RobotStatus.Cleaning]:                  RX9RobotStatus.PausedCleaning,
+    [RX9RobotStatus.SpotCleaning]:              RX9RobotStatus.PausedSpotCleaning,
+    [RX9RobotStatus.Return]:                    RX9RobotStatus.PausedReturn,
+    [RX9RobotStatus.ReturnForPitstop]:          RX9RobotStatus.PausedReturnForPitstop
+};
+const RESUMED: Partial<Record<RX9RobotStatus, RX9RobotStatus>> = Object.fromEntries(
+    Object.entries(PAUSED).map(([resumed, paused]) => [paused, Number(resumed)]));
+
+// Counter used to allocate unique serial numbers
+let robotCount = 0;
+
+// A simulated AEG RX9.1 or RX9.2 robot vacuum cleaner
+export class MockRX9Robot {
+
+    // Static details
+    readonly model:         MockRX9Model;
+    readonly applianceId:   string;
+    readonly serialNumber:  string;
+    readonly created:       string;
+
+    // Durations of simulated activities
+    readonly timing:        MockRX9Timing;
+
+    // Current state
+    connectionState:        RX9ApplianceState['connectionState'] = 'Connected';
+    status:                 RX9ApplianceState['status'] = 'enabled';
+    reported:               RX91ApplianceStateReported | RX92ApplianceStateReported;
+
+    // Timers for pending changes of activity
+    private readonly activityTimers = new Set<NodeJS.Timeout>();
+
+    // Next message identifier
+    private messageId = 1;
+
+    // Create a new simulated robot
+    constructor(options: MockRX9RobotOptions = {}) {
+        this.model          = options.model ?? 'rx92';
+        this.serialNumber   = options.serialNumber ?? String(93700000 + ++robotCount);
+        this.applianceId    = MODELS[this.model].pnc + this.serialNumber + '0000000';
+        this.created        = '2022-12-27T18:00:21.834+00:00';
+        this.timing         = { ...DEFAULT_TIMING, ...options.timing };
+
+        // Initial state is charged on the dock
+        const name = options.name ?? `AEG ${this.model === 'rx91' ? 'RX9.1' : 'RX9.2'} Robot`;
+        const base = {
+            availableLanguages: AVAILABLE_LANGUAGES,
+            capabilities:       {},
+            batteryStatus:      RX9BatteryStatus.FullyCharged,
+            robotStatus:        RX9RobotStatus.Sleeping,
+            messageList:        { messages: [] },
+            dustbinStatus:      RX9Dustbin.Present,
+            platform:           '1.01',
+            applianceName:      name,
+            firmwareVersion:    '43.23',
+            language:           'eng',
+            mute:               false
+        };
+        if (this.model === 'rx91') {
+            this.reported = {
+                ...base,
+                capabilities:   { EcoMode: {} },
+                ecoMode:        false
+            };
+        } else {
+            this.reported = {
+                ...base,
+                capabilities: {
+                    CustomPlay: {}, FreezeMapOnDemand: {}, InteractiveMap: {},
+                    MultipleScheduledCleaningsPerDay: {}, PowerLevels: {}, PowerZones: {}
+                },
+                powerMode:      RX92PowerMode.Smart,
+                tasks: {
+                    '1': {
+                        enabled:    true,
+                        start: {
+                            weekDays:   ['monday', 'wednesday', 'friday'],
+                            time:       '09:00:00',
+                            properties: { zones: [{ powerMode: RX92PowerMode.Smart }] }
+                        }
+                    }
+                }
+            };
+        }
+    }
+
+    // GET /api/v1/appliances entry
+    get appliance(): Appliance {
+        return {
+            applianceId:    this.applianceId,
+            applianceName:  this.reported.applianceName,
+            applianceType:  'PUREi9',
+            created:        this.created
+        };
+    }
+
+    // GET /api/v1/appliances/{applianceId}/info response
+    get info(): RX9ApplianceInfo {
+        const { pnc, variant, colour } = MODELS[this.model];
+        const info: RX9ApplianceInfo = {
+            applianceInfo: {
+                serialNumber:   this.serialNumber,
+                pnc,
+                brand:          'AEG',
+                deviceType:     'ROBOTIC_VACUUM_CLEANER',
+                model:          this.model,
+                variant,
+                colour
+            },
+            capabilities: {
+                CleaningCommand: {
+                    access:     'readwrite',
+                    type:       'string',
+                    values:     { play: {}, stop: {}, pause: {}, home: {} }
+                },
+                robotStatus: {
+                    access:     'read',
+                    type:       'string',
+                    values: {
+                        1: {}, 2: {}, 3: {}, 4: {}, 5: {}, 6: {}, 7: {},
+                        8: {}, 9: {}, 10: {}, 11: {}, 12: {}, 13: {}, 14: {}
+                    }
+                },
+                dustbinStatus: {
+                    access:     'read',
+                    type:       'string',
+                    values:     { NOTCONNECTED: {}, CONNECTED: {}, EMPTY: {}, FULL: {} }
+                },
+                batteryStatus: {
+                    access:     'read',
+                    type:       'int',
+                    max:        6,
+                    min:        1
+                }
+            }
+        };
+        if (this.model === 'rx92') {
+            info.capabilities.powerMode = { access: 'read', type: 'int', min: 1, max: 3 };
+        }
+        return info;
+    }
+
+    // GET /api/v1/appliances/{applianceId}/state response
+    get state(): RX9ApplianceState {
+        return structuredClone({
+            applianceId:        this.applianceId,
+            connectionState:    this.connectionState,
+            status:             this.status,
+            properties:         { reported: this.reported }
+        });
+    }
+
+    // Apply an immediate change to the robot state
+    update(update: MockRX9Update): void {
+        if (update.connectionState) this.connectionState = update.connectionState;
+        if (update.status)          this.status = update.status;
+        Object.assign(this.reported, update.reported);
+    }
+
+    // Add a message to the robot's message list
+    addMessage(text: string, details: Partial<Omit<RX9Message, 'id' | 'text'>> = {}): RX9Message {
+        const message: RX9Message = {
+            id:         this.messageId++,
+            timestamp:  Math.floor(Date.now() / 1000),
+            type:       0,
+            ...details,
+            text
+        };
+        this.reported.messageList.messages.push(message);
+        return message;
+    }
+
+    // Narrow the reported state to that of a specific model
+    isRX91(reported: this['reported']): reported is RX91ApplianceStateReported {
+        return this.model === 'rx91';
+    }
+
+    isRX92(reported: this['reported']): reported is RX92ApplianceStateReported {
+        return this.model === 'rx92';
+    }
+
+    // Handle a PUT /api/v1/appliances/{applianceId}/command request
+    command(body: unknown): string | undefined {
+        if (this.connectionState !== 'Connected') return 'Appliance is not connected';
+        if (typeof body !== 'object' || body === null) return 'Command must be an object';
+        const { CleaningCommand, mute, language, applianceName, powerMode, ecoMode, tasks } = body as
+            { CleaningCommand?: unknown; mute?: unknown; language?: unknown; applianceName?: unknown;
+              powerMode?: unknown; ecoMode?: unknown; tasks?: unknown };
+        const commands: RX9CleaningCommand[] = ['play', 'stop', 'pause', 'home'];
+        const powerModes: unknown[] = [RX92PowerMode.Quiet, RX92PowerMode.Smart, RX92PowerMode.Power];
+        if (commands.includes(CleaningCommand as RX9CleaningCommand)) {
+            this.cleaningCommand(CleaningCommand as RX9CleaningCommand);
+        } else if (typeof mute === 'boolean') {
+            this.reported.mute = mute;
+        } else if (typeof language === 'string' && AVAILABLE_LANGUAGES.includes(language)) {
+            this.reported.language = language;
+        } else if (typeof applianceName === 'string' && applianceName.length) {
+            this.reported.applianceName = applianceName;
+        } else if (this.isRX92(this.reported) && powerModes.includes(powerMode)) {
+            this.reported.powerMode = powerMode as RX92PowerMode;
+        } else if (this.isRX91(this.reported) && typeof ecoMode === 'boolean') {
+            this.reported.ecoMode = ecoMode;
+        } else if (this.isRX92(this.reported) && checkers.RX92Tasks.test(tasks)) {
+            this.reported.tasks = tasks;
+        } else {
+            return `Unsupported command: ${JSON.stringify(body)}`;
+        }
+        return undefined;
+    }
+
+    // Simulate the effect of a cleaning command
+    cleaningCommand(command: RX9CleaningCommand): void {
+        const status = this.reported.robotStatus;
+        switch (command) {
+        case 'play': {
+            const resumed = RESUMED[status];
+            if (resumed === undefined) this.clean();
+            else if (PAUSED[RX9RobotStatus.Return] === status
+                     || PAUSED[RX9RobotStatus.ReturnForPitstop] === status) this.returnHome(resumed);
+            else this.clean(resumed);
+            break;
+        }
+        case 'pause': {
+            const paused = PAUSED[status];
+            if (paused !== undefined) this.setActivity(paused);
+            break;
+        }
+        case 'home':
+            if (![RX9RobotStatus.Charging, RX9RobotStatus.Sleeping].includes(status)) this.returnHome();
+            break;
+        case 'stop':
+            this.setActivity(RX9RobotStatus.Sleeping);
+            break;
+        }
+    }
+
+    // Simulate a complete cleaning run, finishing back on the dock
+    clean(status = RX9RobotStatus.Cleaning): void {
+        this.setActivity(status, () => {
+            this.reported.batteryStatus = RX9BatteryStatus.Medium;
+            this.returnHome();
+        }, this.timing.cleaning);
+    }
+
+    // Simulate returning to the dock and charging
+    returnHome(status = RX9RobotStatus.Return): void {
+        this.setActivity(status, () => {
+            this.setActivity(RX9RobotStatus.Charging, () => {
+                this.reported.batteryStatus = RX9BatteryStatus.FullyCharged;
+                this.setActivity(RX9RobotStatus.Sleeping);
+            }, this.timing.charging);
+        }, this.timing.returning);
+    }
+
+    // Change the robot activity, optionally followed by another action
+    setActivity(status: RX9RobotStatus, next?: () => void, delay = 0): void {
+        this.activityTimers.forEach(timer => { clearTimeout(timer); });
+        this.activityTimers.clear();
+        this.reported.robotStatus = status;
+        if (next) {
+            const timer = setTimeout(() => {
+                this.activityTimers.delete(timer);
+                next();
+            }, delay);
+            this.activityTimers.add(timer);
+        }
+    }
+
+    // Cancel all pending changes of state
+    stop(): void {
+        this.activityTimers.forEach(timer => { clearTimeout(timer); });
+        this.activityTimers.clear();
+    }
+}
@@ -0,0 +1,279 @@
+// Homebridge plugin for AEG RX 9 / Electrolux Pure i9 robot vacuum
+// Copyright © 2026 Alexander Thoukydides
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { randomBytes } from 'node:crypto';
+import { setTimeout as setTimeoutP } from 'node:timers/promises';
+
+import { ErrorResponse } from '../src/aegapi-types.js';
+import { PostTokenRefresh, Tokens } from '../src/aegapi-auth-types.js';
+import { AccessTokenHeader, AccessTokenPayload } from '../src/token-types.js';
+import { MockRX9Robot, MockRX9RobotOptions } from './aegapi-mock-robot.js';
+
+// A scripted failure (or delay) applied to matching requests
+export interface MockFault {
+    method?:        string;                 // e.g. 'GET' (default is any method)
+    path?:          string | RegExp;        // e.g. /\/state$/ (default is any path)
+    count?:         number;                 // Number of requests affected (default 1)
+    delay?:         number;                 // Milliseconds before responding
+    statusCode?:    number;                 // e.g. 429 (default is a normal response)
+    headers?:       Record<string, string>; // e.g. { 'retry-after': '60' }
+    message?:       string;                 // Error message in the response body
+    disconnect?:    boolean;                // Close the connection without responding
+}
+
+// A record of a request handled by the mock server
+export interface MockRequestRecord {
+    method:         string;
+    path:           string;
+    statusCode:     number | 'disconnected';
+    body?:          unknown;
+}
+
+// Options for creating a mock server
+export interface AEGAPIMockOptions {
+    apiKey?:        string;
+    accessToken?:   string;
+    refreshToken?:  string;
+    expiresIn?:     number;                 // Access token lifetime (seconds)
+    delay?:         number;                 // Milliseconds added to every response
+    log?:           (message: string) => void;
+}
+
+// Default access token lifetime
+const EXPIRES_IN = 12 * 60 * 60; // (12 hours)
+
+// Stand-in for the Electrolux Group API with simulated robot vacuum cleaners
+export class AEGAPIMock {
+
+    // Credentials that will be accepted
+    readonly apiKey:    string;
+    accessToken:        string;
+    refreshToken:       string;
+
+    // Simulated robot vacuum cleaners
+    readonly robots = new Map<string, MockRX9Robot>();
+
+    // Scripted failures and delays
+    private readonly faults: MockFault[] = [];
+
+    // Log of all requests received
+    readonly requests: MockRequestRecord[] = [];
+
+    // HTTP server
+    private readonly server: Server;
+
+    // Create a new mock server
+    constructor(readonly options: AEGAPIMockOptions = {}) {
+        this.apiKey       = options.apiKey       ?? `m_${randomUUIDLike()}`;
+        this.accessToken  = options.accessToken  ?? this.makeAccessToken();
+        this.refreshToken = options.refreshToken ?? randomBytes(24).toString('base64url');
+        this.server = createServer((req, res) => void this.handle(req, res));
+    }
+
+    // Start listening for requests, returning the base URL
+    async listen(port = 0, host = '127.0.0.1'): Promise<string> {
+        await new Promise<void>((resolve, reject) => {
+            this.server.once('error', reject);
+            this.server.listen(port, host, () => {
+                this.server.off('error', reject);
+                resolve();
+            });
+        });
+        return this.url;
+    }
+
+    // Base URL of the running server
+    get url(): string {
+        const { address, port } = this.server.address() as AddressInfo;
+        return `http://${address}:${port}`;
+    }
+
+    // Stop the server and any simulated robot activity
+    async close(): Promise<void> {
+        this.robots.forEach(robot => { robot.stop(); });
+        this.server.closeAllConnections();
+        await new Promise<void>(resolve => this.server.close(() => { resolve(); }));
+    }
+
+    // Add a simulated robot vacuum cleaner
+    addRobot(options?: MockRX9RobotOptions): MockRX9Robot {
+        const robot = new MockRX9Robot(options);
+        this.robots.set(robot.applianceId, robot);
+        return robot;
+    }
+
+    // Script a failure (or delay) for subsequent matching requests
+    fail(fault: MockFault): this {
+        this.faults.push({ count: 1, ...fault });
+        return this;
+    }
+
+    // Handle a single request
+    async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        const method = req.method ?? 'GET';
+        const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+        const record: MockRequestRecord = { method, path, statusCode: 200 };
+        this.requests.push(record);
+        try {
+            // Read any request body
+            const chunks: Buffer[] = [];
+            for await (const chunk of req) chunks.push(chunk as Buffer);
+            const text = Buffer.concat(chunks).toString();
+            if (text.length) record.body = JSON.parse(text) as unknown;
+
+            // Apply any global and scripted delays
+            const fault = this.takeFault(method, path);
+            const delay = (this.options.delay ?? 0) + (fault?.delay ?? 0);
+            if (delay) await setTimeoutP(delay);
+
+            // Apply any scripted failure
+            if (fault?.disconnect) {
+                record.statusCode = 'disconnected';
+                req.socket.destroy();
+            } else if (fault?.statusCode !== undefined) {
+                const message = fault.message ?? 'Simulated failure';
+                this.sendError(res, record, fault.statusCode, message, fault.headers);
+            } else {
+                this.route(req, res, record);
+            }
+        } catch (err) {
+            this.sendError(res, record, 500, `Mock server error: ${String(err)}`);
+        } finally {
+            this.options.log?.(`${method} ${path} => ${record.statusCode}`);
+        }
+    }
+
+    // Select and consume any scripted failure matching a request
+    takeFault(method: string, path: string): MockFault | undefined {
+        const index = this.faults.findIndex(fault =>
+            (fault.method === undefined || fault.method === method)
+            && (fault.path === undefined || (typeof fault.path === 'string'
+                                             ? fault.path === path : fault.path.test(path))));
+        if (index === -1) return undefined;
+        const fault = this.faults[index];
+        if (fault.count === undefined || --fault.count <= 0) this.faults.splice(index, 1);
+        return fault;
+    }
+
+    // Dispatch a request to the appropriate handler
+    route(req: IncomingMessage, res: ServerResponse, record: MockRequestRecord): void {
+        const { method, path, body } = record;
+
+        // All requests require a valid API key
+        if (req.headers['x-api-key'] !== this.apiKey) {
+            this.sendError(res, record, 403, 'Forbidden', undefined, 'Invalid API key');
+            return;
+        }
+
+        // Token management requests
+        if (method === 'POST' && path === '/api/v1/token/refresh') {
+            const { refreshToken } = (body ?? {}) as Partial<PostTokenRefresh>;
+            if (refreshToken !== this.refreshToken) {
+                this.sendError(res, record, 401, 'Unauthorized', undefined, 'Invalid refresh token');
+            } else {
+                this.sendJSON(res, record, 200, this.refreshTokens());
+            }
+            return;
+        }
+        if (method === 'POST' && path === '/api/v1/token/revoke') {
+            this.sendEmpty(res, record, 200);
+            return;
+        }
+
+        // All other requests require a valid access token
+        if (req.headers.authorization !== `Bearer ${this.accessToken}`) {
+            this.sendError(res, record, 401, 'Unauthorized', undefined, 'Invalid access token');
+            return;
+        }
+
+        // Appliance requests
+        if (method === 'GET' && path === '/api/v1/appliances') {
+            this.sendJSON(res, record, 200, [...this.robots.values()].map(robot => robot.appliance));
+            return;
+        }
+        const match = /^\/api\/v1\/appliances\/([^/]+)\/(info|state|command)$/.exec(path);
+        const robot = match?.[1] === undefined ? undefined : this.robots.get(match[1]);
+        if (!match || !robot) {
+            this.sendError(res, record, 404, 'Not Found', undefined, `No handler for ${method} ${path}`);
+        } else if (method === 'GET' && match[2] === 'info') {
+            this.sendJSON(res, record, 200, robot.info);
+        } else if (method === 'GET' && match[2] === 'state') {
+            this.sendJSON(res, record, 200, robot.state);
+        } else if (method === 'PUT' && match[2] === 'command') {
+            const error = robot.command(body);
+            if (error) this.sendError(res, record, 400, 'Bad Request', undefined, error);
+            else this.sendEmpty(res, record, 202);
+        } else {
+            this.sendError(res, record, 405, 'Method Not Allowed');
+        }
+    }
+
+    // Issue new tokens, invalidating the previous ones
+    refreshTokens(): Tokens {
+        this.accessToken  = this.makeAccessToken();
+        this.refreshToken = randomBytes(24).toString('base64url');
+        return {
+            accessToken:    this.accessToken,
+            expiresIn:      this.options.expiresIn ?? EXPIRES_IN,
+            tokenType:      'Bearer',
+            refreshToken:   this.refreshToken,
+            scope:          'email offline_access'
+        };
+    }
+
+    // Create an access token resembling those issued by the real API
+    makeAccessToken(): string {
+        const now = Math.floor(Date.now() / 1000);
+        const header: AccessTokenHeader = {
+            kid:    randomBytes(32).toString('hex'),
+            alg:    'RS256',
+            typ:    'JWT'
+        };
+        const payload: AccessTokenPayload = {
+            iat:    now,
+            iss:    'https://api.ocp.electrolux.one/one-account-authorization',
+            aud:    'https://api.ocp.electrolux.one',
+            exp:    now + (this.options.expiresIn ?? EXPIRES_IN),
+            sub:    randomBytes(16).toString('hex'),
+            azp:    'HeiOpenApi',
+            scope:  'email offline_access',
+            occ:    'GB'
+        };
+        const encode = (value: object): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+        return [encode(header), encode(payload), randomBytes(64).toString('base64url')].join('.');
+    }
+
+    // Send a JSON response
+    sendJSON(res: ServerResponse, record: MockRequestRecord, statusCode: number,
+             json: unknown, headers: Record<string, string> = {}): void {
+        record.statusCode = statusCode;
+        const text = JSON.stringify(json);
+        res.writeHead(statusCode, {
+            ...headers,
+            'content-type':     'application/json',
+            'content-length':   Buffer.byteLength(text)
+        }).end(text);
+    }
+
+    // Send an empty response
+    sendEmpty(res: ServerResponse, record: MockRequestRecord, statusCode: number): void {
+        record.statusCode = statusCode;
+        res.writeHead(statusCode, { 'content-length': 0 }).end();
+    }
+
+    // Send an error response
+    sendError(res: ServerResponse, record: MockRequestRecord, statusCode: number,
+              message: string, headers?: Record<string, string>, detail?: string): void {
+        const json: ErrorResponse = { message };
+        if (detail) json.detail = detail;
+        this.sendJSON(res, record, statusCode, json, headers);
+    }
+}
+
+// Generate a random string in the same format as an Electrolux Group API Key
+function randomUUIDLike(): string {
+    const hex = randomBytes(16).toString('hex');
+    return [hex.slice(0, 8), hex.slice(8, 12), hex.slice(12, 16), hex.slice(16, 20), hex.slice(20)].join('-');
+}
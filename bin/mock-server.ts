@@ -0,0 +1,41 @@
+// Homebridge plugin for AEG RX 9 / Electrolux Pure i9 robot vacuum
+// Copyright © 2026 Alexander Thoukydides
+
+import path from 'node:path';
+import { once } from 'node:events';
+
+import { AEGAPIMock } from './aegapi-mock.js';
+import { MockRX9Model } from './aegapi-mock-robot.js';
+
+// Process command line arguments
+const cmd = process.argv.slice(0, 2).map(p => path.basename(p)).join(' ');
+const [ portArg = '0', ...modelArgs ] = process.argv.slice(2);
+const port = Number(portArg);
+const models = modelArgs.length ? modelArgs : ['rx91', 'rx92'];
+if (!Number.isInteger(port) || !models.every(model => ['rx91', 'rx92'].includes(model))) {
+    console.error(`Usage: ${cmd} [<port> [rx91|rx92]...]`);
+    process.exit(1);
+}
+
+// Create the mock server, using any credentials from the environment
+const mock = new AEGAPIMock({
+    apiKey:         process.env.ELECTROLUX_API_KEY,
+    accessToken:    process.env.ELECTROLUX_ACCESS_TOKEN,
+    refreshToken:   process.env.ELECTROLUX_REFRESH_TOKEN,
+    log:            (message: string): void => { console.log(message); }
+});
+for (const model of models) mock.addRobot({ model: model as MockRX9Model });
+
+// Start the server and describe how to use it
+const url = await mock.listen(port);
+console.log(`Electrolux Group API stand-in listening on ${url}`);
+console.log(`    ELECTROLUX_API_KEY=${mock.apiKey}`);
+console.log(`    ELECTROLUX_ACCESS_TOKEN=${mock.accessToken}`);
+console.log(`    ELECTROLUX_REFRESH_TOKEN=${mock.refreshToken}`);
+for (const robot of mock.robots.values()) {
+    console.log(`Simulating ${robot.model} "${robot.reported.applianceName}" (${robot.applianceId})`);
+}
+
+// Run until terminated
+await Promise.race([once(process, 'SIGINT'), once(process, 'SIGTERM')]);
+await mock.close();
@@ -3,8 +3,12 @@
 
 import { spawn } from 'child_process';
 import assert from 'node:assert';
+import { once } from 'node:events';
 import { setTimeout as setTimeoutP } from 'node:timers/promises';
 
+import { AEGAPIMock } from './aegapi-mock.js';
+import { MockRX9Robot } from './aegapi-mock-robot.js';
+
 // Command to use to launch Homebridge
 const SPAWN_COMMAND = 'homebridge';
 const SPAWN_ARGS = '-D -I -P .. --strict-plugin-resolution'.split(' ');
@@ -12,19 +16,75 @@ const SPAWN_ARGS = '-D -I -P .. --strict-plugin-resolution'.split(' ');
 // Log messages indicating success
 const SUCCESS_OUTPUT_REGEX = /\[Homebridge AEG Robot Vacuum\] (All \d+ API tests passed)/;
 
-// Length of time to wait for the message
+// Length of time to wait for the messages
 const TIMEOUT_MS = 15 * 1000; // (15 seconds)
 
-// Collect stdout and stderr, checking for success message(s)
-let homebridgeOutput = '';
-async function checkHomebridgeOutput(name: string, stream: NodeJS.ReadableStream): Promise<void> {
+// Refresh token in the Homebridge configuration (overrides the environment)
+const CONFIG_REFRESH_TOKEN = 'NotRefreshToken';
+
+// Length of time to wait for Homebridge to exit after each test
+const EXIT_TIMEOUT_MS = 10 * 1000; // (10 seconds)
+
+// A startup scenario using the local stand-in for the Electrolux Group API
+interface Scenario {
+    name:       string;
+    prepare?:   (mock: AEGAPIMock, robots: MockRX9Robot[]) => void;
+    expect:     RegExp[];           // Log messages that must all be seen
+    verify?:    (mock: AEGAPIMock) => void;
+}
+
+// Scenarios to test using the local stand-in
+const SCENARIOS: Scenario[] = [{
+    name:       'Normal startup',
+    expect:     [SUCCESS_OUTPUT_REGEX]
+}, {
+    name:       'Rate limited with Retry-After',
+    prepare:    (mock): void => { mock.fail({ path: '/api/v1/appliances', statusCode: 429, headers: { 'retry-after': '1' } }); },
+    expect:     [/rate limit exceeded; pausing all requests for 1 second/,
+                 /rate limit window has reopened; resuming requests/,
+                 SUCCESS_OUTPUT_REGEX],
+    verify:     (mock): void => {
+        const statusCodes = mock.requests.filter(r => r.path === '/api/v1/appliances').map(r => r.statusCode);
+        assert.deepStrictEqual(statusCodes.slice(0, 2), [429, 200], 'Rate limited request was not retried');
+    }
+}, {
+    name:       'Access token rejected',
+    prepare:    (mock): void => { mock.fail({ path: '/api/v1/appliances', statusCode: 401, message: 'Unauthorized' }); },
+    expect:     [/Token refresh required/, /Successfully refreshed access token/, SUCCESS_OUTPUT_REGEX],
+    verify:     (mock): void => {
+        assert(mock.requests.some(r => r.path === '/api/v1/token/refresh' && r.statusCode === 200),
+               'Access token was not refreshed');
+    }
+}, {
+    name:       'Transient server and network failures',
+    prepare:    (mock): void => {
+        mock.fail({ path: /\/state$/, statusCode: 503, message: 'Service Unavailable', count: 2 });
+        mock.fail({ path: /\/info$/, disconnect: true });
+    },
+    expect:     [SUCCESS_OUTPUT_REGEX],
+    verify:     (mock): void => {
+        const failures = mock.requests.filter(r => r.statusCode === 503 || r.statusCode === 'disconnected');
+        assert.strictEqual(failures.length, 3, 'Scripted failures were not all applied');
+    }
+}, {
+    name:       'Robot needs attention or is disconnected',
+    prepare:    (_mock, [rx91, rx92]): void => {
+        rx91.addMessage('Please help me get free', { userErrorID: 15, internalErrorID: 10005 });
+        rx92.update({ connectionState: 'Disconnected' });
+    },
+    expect:     [/Message: Please help me get free/, /Robot NEEDS ATTENTION/, SUCCESS_OUTPUT_REGEX]
+}];
+
+// Collect stdout and stderr, checking for the expected log messages
+async function checkHomebridgeOutput(output: { text: string }, expect: RegExp[],
+                                     name: string, stream: NodeJS.ReadableStream): Promise<void> {
     stream.setEncoding('utf8');
     for await (const chunk of stream) {
         assert(typeof chunk === 'string');
-        homebridgeOutput += chunk.toString();
+        output.text += chunk.toString();
 
         // Check for the expected log messages
-        if (SUCCESS_OUTPUT_REGEX.test(homebridgeOutput)) return;
+        if (expect.every(regex => regex.test(output.text))) return;
     }
 
     // Stream should only terminate if the process is killed
@@ -37,20 +97,20 @@ async function timeout(ms: number): Promise<never> {
     throw new Error('Timeout waiting for expected output');
 };
 
-// Run the test
-void (async (): Promise<void> => {
-    // Attempt to launch Homebridge
+// Launch Homebridge and wait for the expected log messages
+async function testHomebridge(name: string, expect: RegExp[]): Promise<boolean> {
+    const output = { text: '' };
     const homebridge = spawn(SPAWN_COMMAND, SPAWN_ARGS, { stdio: 'pipe' });
     try {
-        // Collect stdout and stderr, checking for success message(s)
+        // Collect stdout and stderr, checking for the expected log messages
         await Promise.race([
-            checkHomebridgeOutput('stdout', homebridge.stdout),
-            checkHomebridgeOutput('stderr', homebridge.stderr),
+            checkHomebridgeOutput(output, expect, 'stdout', homebridge.stdout),
+            checkHomebridgeOutput(output, expect, 'stderr', homebridge.stderr),
             timeout(TIMEOUT_MS)
         ]);
 
         // The expected log messages were seen
-        console.log('Test successful');
+        return true;
 
     } catch (err) {
 
@@ -58,12 +118,60 @@ void (async (): Promise<void> => {
         const errs = err instanceof AggregateError ? err.errors : [err];
         const messages = errs.map(e => e instanceof Error ? e.message : String(e));
         if (homebridge.exitCode !== null) messages.unshift(`Homebridge exited with code ${homebridge.exitCode}`);
-        console.error('Test failed:\n' + messages.map(m => `    ${m}\n`).join(''));
-        console.log(homebridgeOutput);
-        process.exitCode = 1;
+        const missing = expect.filter(regex => !regex.test(output.text));
+        messages.push(...missing.map(regex => `Missing output: ${String(regex)}`));
+        console.error(`Test failed (${name}):\n` + messages.map(m => `    ${m}\n`).join(''));
+        console.log(output.text);
+        return false;
 
     } finally {
-        // Terminate the homebridge process at the end of the test
-        homebridge.kill('SIGTERM');
+        // Terminate the homebridge process, waiting for it to release its port
+        const isRunning = (): boolean => homebridge.exitCode === null && homebridge.signalCode === null;
+        if (isRunning()) {
+            const exited = once(homebridge, 'exit');
+            homebridge.kill('SIGTERM');
+            await Promise.race([exited, setTimeoutP(EXIT_TIMEOUT_MS)]);
+            if (isRunning()) homebridge.kill('SIGKILL');
+        }
     }
-})();
\ No newline at end of file
+}
+
+// Run a single scenario using a local stand-in for the Electrolux Group API
+async function testScenario(scenario: Scenario): Promise<boolean> {
+    const mock = new AEGAPIMock({ refreshToken: CONFIG_REFRESH_TOKEN });
+    const robots = [mock.addRobot({ model: 'rx91' }), mock.addRobot({ model: 'rx92' })];
+    scenario.prepare?.(mock, robots);
+    process.env.ELECTROLUX_API_URL       = await mock.listen();
+    process.env.ELECTROLUX_API_KEY       = mock.apiKey;
+    process.env.ELECTROLUX_ACCESS_TOKEN  = mock.accessToken;
+    process.env.ELECTROLUX_REFRESH_TOKEN = mock.refreshToken;
+    console.log(`Scenario "${scenario.name}" using Electrolux Group API stand-in at ${mock.url}`);
+    try {
+        if (!await testHomebridge(scenario.name, scenario.expect)) return false;
+        scenario.verify?.(mock);
+        return true;
+    } catch (err) {
+        console.error(`Test failed (${scenario.name}):\n    ${err instanceof Error ? err.message : String(err)}`);
+        return false;
+    } finally {
+        await mock.close();
+    }
+}
+
+// Run the test
+void (async (): Promise<void> => {
+    // Use the real Electrolux Group API if an API Key was provided
+    let success = true;
+    if (process.env.ELECTROLUX_API_KEY) {
+        success = await testHomebridge('Electrolux Group API', [SUCCESS_OUTPUT_REGEX]);
+    } else {
+        // Otherwise run each scenario using a local stand-in
+        for (const scenario of SCENARIOS) {
+            if (!await testScenario(scenario)) success = false;
+        }
+    }
+
+    // Report the overall result
+    if (success) console.log('Test successful');
+    else process.exitCode = 1;
+})();
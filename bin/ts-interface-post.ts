@@ -47,7 +47,7 @@ for (const tiFile of tiFiles) {
         const importPath = importMatch[1];
         if (!importPath.endsWith('.js')) continue;
         const importTypeSuite = `importedTypeSuite${importedTypeSuites.length}`;
-        importStatements.push(`import { typeSuite as ${importTypeSuite} } from '${importPath}';`);
+        importStatements.push(`import { typeSuites as ${importTypeSuite} } from '${importPath}';`);
         importedTypeSuites.push(importTypeSuite);
     }
 
@@ -71,8 +71,11 @@ export const typeSuite = exportedTypeSuite as ITypeSuite & {
 ${typeSuiteMembers.map(m => `    ${m}: TType;`).join('\n')}
 };
 
+// Type definitions, including any that are imported (directly or indirectly)
+export const typeSuites: ITypeSuite[] = [${['typeSuite', ...importedTypeSuites.map(s => `...${s}`)].join(', ')}];
+
 // Checkers
-export const checkers = createCheckers(${['typeSuite', ...importedTypeSuites].join(', ')}) as ICheckerSuite & {
+export const checkers = createCheckers(...typeSuites) as ICheckerSuite & {
 ${typeSuiteMembers.map(m => `    ${m}: CheckerT<${m}>;`).join('\n')}
 };
 
@@ -1,15 +1,17 @@
 // Homebridge plugin for AEG RX 9 / Electrolux Pure i9 robot vacuum
 // Copyright © 2022-2023 Alexander Thoukydides
 
-import { PlatformAccessory, Service } from 'homebridge';
+import { Perms, PlatformAccessory, Service } from 'homebridge';
 
 import { AEGAccessory } from './accessory.js';
 import { AEGPlatform } from './platform.js';
 import { AEGRobot, DynamicStatus, StatusEvent, SimpleActivity } from './aeg-robot.js';
-import { assertIsBoolean, assertIsNumber, gcd } from './utils.js';
-import { HideService } from './config-types.js';
+import { CONSUMABLES, consumableNames } from './aeg-robot-consumables.js';
+import { assertIsBoolean, assertIsNumber, assertIsString, gcd } from './utils.js';
+import { HideService, ShowService } from './config-types.js';
 import { PLUGIN_VERSION } from './settings.js';
-import { RX9BatteryStatus, RX9CleaningCommand, RX92PowerMode } from './aegapi-rx9-types.js';
+import { RX9BatteryStatus, RX9Capabilities, RX9CleaningCommand,
+         RX92PowerMode } from './aegapi-rx9-types.js';
 
 // A Homebridge AEG RX 9 / Electrolux Pure i9 accessory handler
 export class AEGRobotAccessory extends AEGAccessory {
@@ -28,14 +30,22 @@ export class AEGRobotAccessory extends AEGAccessory {
         // Add all of the required services (first to be added is the primary)
         const support = (service: HideService): boolean =>
             !this.config.hideServices.includes(service);
+        const enabled = (service: ShowService): boolean =>
+            this.config.showServices.includes(service);
         this.addAccessoryInformation();
         if (support('Switch Clean'))        this.addSwitchClean();
         if (support('Switch Home'))         this.addSwitchHome();
+        if (enabled('Switch Activity'))     this.addSwitchActivity();
+        if (enabled('Switch Mute'))         this.addSwitchMute();
+        if (support('Switch Quiet Hours'))  this.addSwitchQuietHours();
+        if (enabled('Switch Tasks'))        this.addSwitchTasks();
         if (support('Fan'))                 this.addFan();
         if (support('Contact Sensor'))      this.addContactSensor();
         if (support('Occupancy Sensor'))    this.addOccupancySensor();
+        if (enabled('Leak Sensor'))         this.addLeakSensor();
         if (support('Battery'))             this.addBattery();
         if (support('Filter Maintenance'))  this.addFilterMaintenance();
+        if (enabled('Consumables'))         this.addConsumables();
 
         // Set or clear long term error state
         this.onRobot('isError', (err?: unknown) => { this.setError(err); });
@@ -54,8 +64,27 @@ export class AEGRobotAccessory extends AEGAccessory {
             .updateCharacteristic(this.Characteristic.Name,             this.robot.name)
             .updateCharacteristic(this.Characteristic.FirmwareRevision, PLUGIN_VERSION);
 
+        // Optionally allow the robot to be renamed via HomeKit
+        if (this.config.syncNames) {
+            if (!service.testCharacteristic(this.Characteristic.ConfiguredName)) {
+                service.addOptionalCharacteristic(this.Characteristic.ConfiguredName);
+            }
+            const characteristic = service.getCharacteristic(this.Characteristic.ConfiguredName);
+            characteristic
+                .setProps({ perms: [Perms.NOTIFY, Perms.PAIRED_READ, Perms.PAIRED_WRITE] })
+                .onSet(async (value) => {
+                    assertIsString(value);
+                    this.log.debug(`Configured Name => "${value}"`);
+                    if (value.trim().length) await this.awaitSet(characteristic, this.robot.setName(value.trim()));
+                });
+        }
+
         // Update other characteristics when there is an update
-        this.onRobot('hardware', (hardware: string) => {
+        this.onRobot('name', (name: string) => {
+            this.log.debug(`Name <= "${name}"`);
+            this.renameAccessory(name);
+            if (this.config.syncNames) service.updateCharacteristic(this.Characteristic.ConfiguredName, name);
+        }).onRobot('hardware', (hardware: string) => {
             this.log.debug(`Hardware Revision <= ${hardware}`);
             service.updateCharacteristic(this.Characteristic.HardwareRevision, hardware);
         }).onRobot('firmware', (firmware: string) => {
@@ -101,6 +130,39 @@ export class AEGRobotAccessory extends AEGAccessory {
         });
     }
 
+    // Add a Filter Maintenance service for each consumable part
+    addConsumables(): void {
+        for (const name of CONSUMABLES) {
+            const description = consumableNames[name];
+            const subtype = description.toLowerCase().replace(/ /g, '-');
+            const service = this.makeService(this.Service.FilterMaintenance, description, subtype);
+            if (!service.testCharacteristic(this.Characteristic.FilterLifeLevel)) {
+                service.addOptionalCharacteristic(this.Characteristic.FilterLifeLevel);
+            }
+            if (!service.testCharacteristic(this.Characteristic.ResetFilterIndication)) {
+                service.addOptionalCharacteristic(this.Characteristic.ResetFilterIndication);
+            }
+
+            // Update characteristics when there is an update
+            this.onRobot(`${name}Life`, (life?: number) => {
+                if (life === undefined) return;
+                const state = life === 0 ? 'CHANGE_FILTER' : 'FILTER_OK';
+                this.log.debug(`Filter Change Indication (${description}) <= ${state}`);
+                service.updateCharacteristic(this.Characteristic.FilterChangeIndication,
+                                             this.Characteristic.FilterChangeIndication[state]);
+                this.log.debug(`Filter Life Level (${description}) <= ${life}%`);
+                service.updateCharacteristic(this.Characteristic.FilterLifeLevel, life);
+            });
+
+            // Record replacement of the consumable part
+            service.getCharacteristic(this.Characteristic.ResetFilterIndication).onSet((value) => {
+                assertIsNumber(value);
+                this.log.debug(`Reset Filter Indication (${description}) => ${value}`);
+                this.robot.resetConsumable(name);
+            });
+        }
+    }
+
     // Add an Contact Sensor service to indicate being on the charging dock
     addContactSensor(): void {
         const service = this.makeService(this.Service.ContactSensor, 'Docked');
@@ -129,6 +191,24 @@ export class AEGRobotAccessory extends AEGAccessory {
         this.addContactOccupancySensorCharacteristics(service, 'Occupancy Sensor');
     }
 
+    // Add a Leak Sensor service to indicate when the robot needs attention
+    addLeakSensor(): void {
+        const service = this.makeService(this.Service.LeakSensor, 'Needs Attention');
+
+        // Update values when they change
+        this.onRobot('needsAttention', (needsAttention?: boolean) => {
+            const state = needsAttention === true ? 'LEAK_DETECTED' : 'LEAK_NOT_DETECTED';
+            this.log.debug(`Leak Detected <= ${state}`);
+            service.updateCharacteristic(this.Characteristic.LeakDetected,
+                                         this.Characteristic.LeakDetected[state]);
+        }).onRobot('isError', (err?: unknown) => {
+            const state = err !== undefined ? 'GENERAL_FAULT' : 'NO_FAULT';
+            this.log.debug(`Status Fault (Leak Sensor) <= ${state}`);
+            service.updateCharacteristic(this.Characteristic.StatusFault,
+                                         this.Characteristic.StatusFault[state]);
+        });
+    }
+
     // Update common Contact or Occupancy Sensor characteristics
     addContactOccupancySensorCharacteristics(service: Service, type: string): void {
         this.onRobot('isBatteryLow', (isBatteryLow?: boolean) => {
@@ -159,15 +239,23 @@ export class AEGRobotAccessory extends AEGAccessory {
             [RX92PowerMode.Power]: 100
         };
 
+        // AEG RX9.1 only supports two power levels (ECO mode on or off)
+        const ecoPercent = (eco: boolean): number => eco ? 50 : 100;
+        let isEco = false;
+
         // Restrict the supported Rotation Speed values
-        const powerPercentValues = Object.values(powerPercent);
-        service.getCharacteristic(this.Characteristic.RotationSpeed)
-            .setProps({
-                minValue:       0,
-                maxValue:       Math.max(...powerPercentValues),
-                minStep:        gcd(...powerPercentValues),
-                validValues:    [0, ...powerPercentValues]
-            });
+        this.onRobot('capabilities', (capabilities: RX9Capabilities[]) => {
+            isEco = capabilities.includes('EcoMode');
+            const powerPercentValues = isEco ? [true, false].map(ecoPercent)
+                                             : Object.values(powerPercent);
+            service.getCharacteristic(this.Characteristic.RotationSpeed)
+                .setProps({
+                    minValue:       0,
+                    maxValue:       Math.max(...powerPercentValues),
+                    minStep:        gcd(...powerPercentValues),
+                    validValues:    [0, ...powerPercentValues]
+                });
+        });
 
         // Update characteristics when there is an update
         this.onRobot('isBusy', (isBusy?: boolean) => {
@@ -183,7 +271,7 @@ export class AEGRobotAccessory extends AEGAccessory {
                                          this.Characteristic.CurrentFanState[state]);
         }).onRobot('eco', (eco?: boolean) => {
             // AEG RX9.1 only supports two power levels
-            const percent = eco === undefined ? 0 : (eco ? 50 : 100);
+            const percent = eco === undefined ? 0 : ecoPercent(eco);
             this.log.debug(`Rotation Speed <= ${percent}%`);
             service.updateCharacteristic(this.Characteristic.RotationSpeed, percent);
         }).onRobot('power', (power?: RX92PowerMode) => {
@@ -194,22 +282,29 @@ export class AEGRobotAccessory extends AEGAccessory {
         });
 
         // Start or pause/resume cleaning
-        service.getCharacteristic(this.Characteristic.Active).onSet((value) => {
+        service.getCharacteristic(this.Characteristic.Active).onSet(async (value) => {
             assertIsNumber(value);
             const command: RX9CleaningCommand = value === this.Characteristic.Active.ACTIVE ? 'play' : 'pause';
             this.log.debug(`Active => ${value} => ${command}`);
-            this.robot.setActivity(command);
+            await this.awaitSet(service.getCharacteristic(this.Characteristic.Active), this.robot.setActivity(command));
         });
 
         // Change cleaning power mode
-        service.getCharacteristic(this.Characteristic.RotationSpeed).onSet((value) => {
+        service.getCharacteristic(this.Characteristic.RotationSpeed).onSet(async (value) => {
             assertIsNumber(value);
             if (value === 0) {
                 this.log.debug(`Rotation Speed => ${value} => Pause`);
-                this.robot.setActivity('pause');
+                await this.awaitSet(service.getCharacteristic(this.Characteristic.RotationSpeed),
+                                    this.robot.setActivity('pause'));
             } else {
-                this.log.debug(`Rotation Speed => ${value} => Clean`);
-                this.robot.setActivity('play');
+                // Select the lowest power mode that is at least the requested speed
+                const powerModes = [RX92PowerMode.Quiet, RX92PowerMode.Smart, RX92PowerMode.Power];
+                const power = isEco
+                    ? (value <= ecoPercent(true) ? RX92PowerMode.Quiet : RX92PowerMode.Power)
+                    : powerModes.find(mode => value <= powerPercent[mode]) ?? RX92PowerMode.Power;
+                this.log.debug(`Rotation Speed => ${value} => ${RX92PowerMode[power]} + Clean`);
+                await this.awaitSet(service.getCharacteristic(this.Characteristic.RotationSpeed),
+                                    this.robot.setPower(power), this.robot.setActivity('play'));
             }
         });
     }
@@ -226,11 +321,11 @@ export class AEGRobotAccessory extends AEGAccessory {
         });
 
         // Start or pause/resume cleaning
-        service.getCharacteristic(this.Characteristic.On).onSet((value) => {
+        service.getCharacteristic(this.Characteristic.On).onSet(async (value) => {
             assertIsBoolean(value);
             const command: RX9CleaningCommand = value ? 'play' : 'pause';
             this.log.debug(`On (Clean) => ${value} => ${command}`);
-            this.robot.setActivity(command);
+            await this.awaitSet(service.getCharacteristic(this.Characteristic.On), this.robot.setActivity(command));
         });
     }
 
@@ -246,14 +341,141 @@ export class AEGRobotAccessory extends AEGAccessory {
         });
 
         // Return to the charging dock or pause returning
-        service.getCharacteristic(this.Characteristic.On).onSet((value) => {
+        service.getCharacteristic(this.Characteristic.On).onSet(async (value) => {
             assertIsBoolean(value);
             const command: RX9CleaningCommand = value ? 'home' : 'pause';
             this.log.debug(`On (Home) => ${value} => ${command}`);
-            this.robot.setActivity(command);
+            await this.awaitSet(service.getCharacteristic(this.Characteristic.On), this.robot.setActivity(command));
+        });
+    }
+
+    // Add mutually exclusive Switch services to select the robot's activity
+    addSwitchActivity(): void {
+        const selections: [string, RX9CleaningCommand, SimpleActivity[]][] = [
+            ['Clean',   'play',     [SimpleActivity.Clean, SimpleActivity.Pitstop]],
+            ['Pause',   'pause',    [SimpleActivity.Pause]],
+            ['Stop',    'stop',     []], // (momentary)
+            ['Home',    'home',     [SimpleActivity.Return]]
+        ];
+        for (const [name, command, activities] of selections) {
+            const service = this.makeService(this.Service.Switch, `Activity ${name}`, `activity-${command}`);
+            const isSelected = (): boolean => {
+                const { simpleActivity: activity, isCleanDeferred } = this.robot.status;
+                if (command === 'play' && isCleanDeferred) return true;
+                return activity !== undefined && activities.includes(activity);
+            };
+
+            // Update characteristics when there is an update
+            const update = (): void => {
+                const state = isSelected();
+                this.log.debug(`On (${name}) <= ${state}`);
+                service.updateCharacteristic(this.Characteristic.On, state);
+            };
+            this.onRobot('simpleActivity', update).onRobot('isCleanDeferred', update);
+
+            // Select the activity (switching off is ignored; select another instead)
+            service.getCharacteristic(this.Characteristic.On).onSet(async (value) => {
+                assertIsBoolean(value);
+                this.log.debug(`On (${name}) => ${value}${value ? ` => ${command}` : ''}`);
+                if (value) await this.awaitSet(service.getCharacteristic(this.Characteristic.On), this.robot.setActivity(command));
+                setImmediate(() => service.updateCharacteristic(this.Characteristic.On, isSelected()));
+            });
+        }
+    }
+
+    // Add a Switch service to mute the voice prompts
+    addSwitchMute(): void {
+        const service = this.makeService(this.Service.Switch, 'Mute', 'mute');
+
+        // Update characteristics when there is an update
+        this.onRobot('mute', (mute?: boolean) => {
+            const state = mute === true;
+            this.log.debug(`On (Mute) <= ${state}`);
+            service.updateCharacteristic(this.Characteristic.On, state);
+        });
+
+        // Mute or unmute the voice prompts
+        service.getCharacteristic(this.Characteristic.On).onSet(async (value) => {
+            assertIsBoolean(value);
+            this.log.debug(`On (Mute) => ${value}`);
+            await this.awaitSet(service.getCharacteristic(this.Characteristic.On), this.robot.setMute(value));
+        });
+    }
+
+    // Add a Switch service to override the quiet hours
+    addSwitchQuietHours(): void {
+        // Only required if quiet hours have been configured for this robot
+        if (!this.robot.robotConfig?.quietHours?.length) return;
+        const service = this.makeService(this.Service.Switch, 'Quiet Hours Override', 'quiet-override');
+
+        // Update characteristics when there is an update
+        this.onRobot('quietOverride', (override?: boolean) => {
+            const state = override === true;
+            this.log.debug(`On (Quiet Hours Override) <= ${state}`);
+            service.updateCharacteristic(this.Characteristic.On, state);
+        });
+
+        // Allow or prevent cleaning during the current (or next) quiet hours
+        service.getCharacteristic(this.Characteristic.On).onSet((value) => {
+            assertIsBoolean(value);
+            this.log.debug(`On (Quiet Hours Override) => ${value}`);
+            this.robot.setQuietHoursOverride(value);
         });
     }
 
+    // Add a Switch service for each scheduled task to enable or disable it
+    addSwitchTasks(): void {
+        const services = new Map<string, Service>();
+        const addTask = (id: string): void => {
+            const service = this.makeService(this.Service.Switch, `Scheduled Task ${id}`, `task-${id}`);
+            services.set(id, service);
+
+            // Enable or disable the scheduled task
+            service.getCharacteristic(this.Characteristic.On).onSet(async (value) => {
+                assertIsBoolean(value);
+                this.log.debug(`On (Task ${id}) => ${value}`);
+                await this.awaitSet(service.getCharacteristic(this.Characteristic.On),
+                                    this.robot.setTaskEnabled(id, value));
+            });
+        };
+
+        // Keep services restored from cache until the scheduled tasks are known
+        for (const { subtype } of this.accessory.services) {
+            const id = /^task-(.+)$/.exec(subtype ?? '')?.[1];
+            if (id !== undefined) addTask(id);
+        }
+
+        // Add or remove services when scheduled tasks are created or deleted
+        const updateTaskIds = (): void => {
+            const { taskIds, isStale } = this.robot.status;
+            if (this.robot.isStateKnown || isStale) {
+                for (const [id, service] of services) {
+                    if (taskIds.includes(id)) continue;
+                    this.log.info(`Removing service "${service.displayName}" for deleted scheduled task`);
+                    this.accessory.removeService(service);
+                    services.delete(id);
+                }
+            }
+            for (const id of taskIds) if (!services.has(id)) addTask(id);
+            this.updateSwitchTasks(services);
+        };
+        this.onRobot('taskIds', updateTaskIds);
+        this.robot.on('appliance', updateTaskIds);
+
+        // Update characteristics when there is an update
+        this.onRobot('enabledTaskIds', () => { this.updateSwitchTasks(services); });
+    }
+
+    // Update the scheduled task Switch services
+    updateSwitchTasks(services: Map<string, Service>): void {
+        const enabledTaskIds = this.robot.status.enabledTaskIds ?? [];
+        for (const [id, service] of services) {
+            const state = enabledTaskIds.includes(id);
+            this.log.debug(`On (Task ${id}) <= ${state}`);
+            service.updateCharacteristic(this.Characteristic.On, state);
+        }
+    }
+
     // Install a handler for a robot event and call it immediately with the current status
     onRobot<Event extends StatusEvent>(event: Event, listener: (newValue: DynamicStatus[Event]) => void): this {
         this.robot.on(event, listener);
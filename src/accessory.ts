@@ -6,9 +6,16 @@ import { Characteristic, CharacteristicValue, HAPStatus, Logger, Nullable,
 
 import nodePersist from 'node-persist';
 
-import { AEGAPIAuthorisationError } from './aegapi-error.js';
+import { AEGAPIAuthorisationError, AEGAPIRateLimitError } from './aegapi-error.js';
 import { AEGPlatform } from './platform.js';
-import { assertIsString, logError } from './utils.js';
+import { AEGRobotQuietHoursError } from './aeg-robot-quiet.js';
+import { MS, assertIsString, logError } from './utils.js';
+
+// Maximum time to keep HomeKit waiting for a characteristic write (its limit is 10 seconds)
+const SET_TIMEOUT_MS = 5 * MS; // (5 seconds)
+
+// Time to report a failure on a characteristic after its write was acknowledged
+const LATE_ERROR_MS = 60 * MS; // (1 minute)
 
 // Characteristic used to indicate a long-term error state
 interface ErrorCharacteristic {
@@ -44,6 +51,9 @@ export class AEGAccessory {
     customNames = new Map<string, string>();
     persistPromise?: Promise<void>;
 
+    // Functions to update the default service names, indexed by suffix
+    private readonly serviceNames = new Map<string, (defaultName: string) => void>();
+
     // Characteristic used to indicate a long-term error state
     private errorCharacteristic?: ErrorCharacteristic;
 
@@ -107,21 +117,26 @@ export class AEGAccessory {
         assertIsString(characteristic.value);
         let currentName = characteristic.value;
 
-        // Set the initial value
-        void this.withPersist('read-only', () => {
-            if (currentName === this.customNames.get(suffix)) {
-                // Name was set via HomeKit, so preserve it
-                this.log.debug(`Preserving ${suffix} service name "${currentName}" set via HomeKit`);
-            } else {
-                // Probably not changed by the user via HomeKit, so set explicitly
-                if (currentName !== defaultName) {
-                    if (currentName === '') this.log.debug(`Naming ${suffix} service as "${defaultName}"`);
-                    else this.log.info(`Renaming ${suffix} service to "${defaultName}" (was "${currentName}")`);
+        // Set the initial value, and update it if the accessory is renamed
+        const setDefaultName = (name: string): void => {
+            defaultName = name;
+            void this.withPersist('read-only', () => {
+                if (currentName === this.customNames.get(suffix)) {
+                    // Name was set via HomeKit, so preserve it
+                    this.log.debug(`Preserving ${suffix} service name "${currentName}" set via HomeKit`);
+                } else {
+                    // Probably not changed by the user via HomeKit, so set explicitly
+                    if (currentName !== defaultName) {
+                        if (currentName === '') this.log.debug(`Naming ${suffix} service as "${defaultName}"`);
+                        else this.log.info(`Renaming ${suffix} service to "${defaultName}" (was "${currentName}")`);
+                    }
+                    characteristic.updateValue(defaultName);
+                    currentName = defaultName;
                 }
-                characteristic.updateValue(defaultName);
-                currentName = defaultName;
-            }
-        });
+            });
+        };
+        setDefaultName(defaultName);
+        this.serviceNames.set(suffix, setDefaultName);
 
         // Monitor changes to the name
         characteristic.onSet(value => {
@@ -143,6 +158,17 @@ export class AEGAccessory {
         });
     }
 
+    // Rename the accessory, and any services that have not been renamed via HomeKit
+    renameAccessory(name: string): void {
+        if (name === this.accessory.displayName) return;
+        this.log.info(`Renaming accessory to "${name}" (was "${this.accessory.displayName}")`);
+        this.accessory.updateDisplayName(name);
+        this.accessory.getService(this.Service.AccessoryInformation)
+            ?.updateCharacteristic(this.Characteristic.Name, name);
+        this.serviceNames.forEach((setDefaultName, suffix) => { setDefaultName(`${name} ${suffix}`); });
+        this.platform.hb.updatePlatformAccessories([this.accessory]);
+    }
+
     // Perform an operation using persistent data
     async withPersist(type: 'read-only' | 'read-write', operation: () => void | Promise<void>): Promise<void> {
         while (this.persistPromise) await this.persistPromise;
@@ -194,6 +220,7 @@ export class AEGAccessory {
                 const { characteristic, originalValue } = this.errorCharacteristic;
                 if (characteristic.value instanceof this.HapStatusError)
                     characteristic.updateValue(originalValue);
+                delete this.errorCharacteristic;
             }
         } else {
             // Set the accessory state on the first error
@@ -202,6 +229,47 @@ export class AEGAccessory {
         }
     }
 
+    // Wait for characteristic writes to be accepted, reporting any failure to HomeKit
+    async awaitSet(characteristic: Characteristic, ...requests: Promise<unknown>[]): Promise<void> {
+        // Wait for all of the requests, even if some fail
+        const settled = Promise.allSettled(requests).then(results => {
+            const rejected = results.find(result => result.status === 'rejected');
+            if (rejected) throw rejected.reason;
+        });
+
+        // Do not keep HomeKit waiting for slow requests
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<'pending'>(resolve => {
+            timer = setTimeout(() => { resolve('pending'); }, SET_TIMEOUT_MS);
+        });
+        try {
+            if (await Promise.race([settled, timeout]) === 'pending') {
+                this.log.debug('Request still in progress; any failure will be reported later');
+                settled.catch((cause: unknown) => {
+                    // Report the failure on the characteristic until it is next updated
+                    this.log.warn(`${characteristic.displayName} change failed after HomeKit was told it succeeded`);
+                    characteristic.updateValue(new this.HapStatusError(AEGAccessory.hapStatus(cause)));
+                    setTimeout(() => {
+                        if (characteristic.statusCode !== HAPStatus.SUCCESS) characteristic.updateValue(characteristic.value);
+                    }, LATE_ERROR_MS).unref();
+                });
+            }
+        } catch (cause) {
+            throw new this.HapStatusError(AEGAccessory.hapStatus(cause));
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    // Select the HomeKit status for a failed characteristic write
+    static hapStatus(cause: unknown): HAPStatus {
+        if (cause instanceof AEGAPIAuthorisationError)  return HAPStatus.INSUFFICIENT_AUTHORIZATION;
+        if (cause instanceof AEGAPIRateLimitError)      return HAPStatus.RESOURCE_BUSY;
+        if (cause instanceof AEGRobotQuietHoursError)   return HAPStatus.NOT_ALLOWED_IN_CURRENT_STATE;
+        if (cause instanceof DOMException && cause.name === 'TimeoutError') return HAPStatus.OPERATION_TIMED_OUT;
+        return HAPStatus.SERVICE_COMMUNICATION_FAILURE;
+    }
+
     // Place an accessory in a long-term error state
     static setError(platform: AEGPlatform, accessory: PlatformAccessory,
                     cause: unknown): ErrorCharacteristic | undefined {
@@ -3,12 +3,28 @@
 
 import { Logger } from 'homebridge';
 
+import { setTimeout } from 'node:timers/promises';
+
 import { AEGAPI } from './aegapi.js';
 import { AEGRobot } from './aeg-robot.js';
-import { formatList, formatSeconds, plural } from './utils.js';
+import { formatList, formatSeconds, logError, MS, plural } from './utils.js';
 import { Config } from './config-types.js';
 import { AEGAPIRX9 } from './aegapi-rx9.js';
-import { API_DAILY_LIMIT, API_DAILY_POLL_LIMIT } from './settings.js';
+import { API_POLL_FRACTION } from './settings.js';
+import { QUOTA_WINDOW_MS } from './aegapi-quota.js';
+import { AEGAPIAuthorisationError, AEGAPIError } from './aegapi-error.js';
+
+// Interval between checks of the daily API quota
+const QUOTA_CHECK_INTERVAL_MS = 60 * MS; // (1 minute)
+
+// Interval between logging the daily API quota
+const QUOTA_LOG_INTERVAL_MS = 60 * 60 * MS; // (1 hour)
+
+// Listener for changes to the account-level API health
+export type HealthListener = (err?: AEGAPIError) => void;
+
+// Minimum fractional change of polling interval to apply
+const POLL_INTERVAL_HYSTERESIS = 0.1;
 
 // An AEG user account manager
 export class AEGAccount {
@@ -22,6 +38,15 @@ export class AEGAccount {
     // Promise that is resolved by successful initialisation
     private readonly readyPromise: Promise<void>;
 
+    // Current (possibly extended) interval between polling each robot
+    private pollSeconds?: number;
+
+    // Account-level problems accessing the Electrolux Group API
+    private authError?:     AEGAPIAuthorisationError;
+    private outageError?:   AEGAPIError;
+    private reportedError?: AEGAPIError;
+    private readonly healthListeners = new Set<HealthListener>();
+
     // Create a new AEG user account manager
     constructor(
         readonly log:    Logger,
@@ -30,6 +55,16 @@ export class AEGAccount {
         // Create a new API instance
         this.api = new AEGAPI(log, config);
 
+        // Monitor the health of the Electrolux Group API
+        this.api.ua.circuit.onChange(err => {
+            this.outageError = err;
+            this.updateHealth();
+        });
+        this.api.ua.onAuthorisation(err => {
+            this.authError = err;
+            this.updateHealth();
+        });
+
         // Start asynchronous initialisation
         this.readyPromise = this.init();
     }
@@ -40,6 +75,24 @@ export class AEGAccount {
         return [...this.robots.values()].map(robot => robot.waitUntilReady());
     }
 
+    // Account-level problem accessing the Electrolux Group API, if any
+    get serverError(): AEGAPIError | undefined {
+        return this.authError ?? this.outageError;
+    }
+
+    // Notify listeners of any change to the account-level API health
+    updateHealth(): void {
+        const err = this.serverError;
+        if (err === this.reportedError) return;
+        this.reportedError = err;
+        this.healthListeners.forEach(listener => { listener(err); });
+    }
+
+    // Register a listener for changes to the account-level API health
+    onHealth(listener: HealthListener): void {
+        this.healthListeners.add(listener);
+    }
+
     // One-off asynchronous initialisation
     async init(): Promise<void> {
         // Read the list of appliances, and initialise any robots
@@ -61,24 +114,85 @@ export class AEGAccount {
             this.log.info(`Ignoring ${plural(incompatible.length, 'incompatible appliance')}: `
                           + formatList(incompatible.map(a => `${a.applianceName} (${a.applianceType})`)));
         }
+
+        // Adapt the polling interval to the remaining daily API quota
+        if (robots.length) void this.monitorQuota();
     }
 
     // Ensure that the polling interval is under the daily API limit
     checkPollingInterval(robots: number): void {
         // Check whether the daily rate limit will be exceeded
         const { statusSeconds } = this.config.pollIntervals;
+        const { budget } = this.api.ua.quota;
         const dailyCalls = (seconds: number): number => Math.ceil(robots * 24 * 60 * 60 / seconds);
-        if (dailyCalls(statusSeconds) < API_DAILY_LIMIT) return;
+        if (dailyCalls(statusSeconds) < budget) return;
 
         // Pick a more suitable polling interval
-        const newStatusSeconds = Math.ceil(robots * 24 * 60 * 60 / API_DAILY_POLL_LIMIT);
+        const newStatusSeconds = Math.ceil(robots * 24 * 60 * 60 / (budget * API_POLL_FRACTION));
         this.config.pollIntervals.statusSeconds = newStatusSeconds;
 
         // Log details of the increased poll interval
         this.log.warn(`Increasing polling interval from ${formatSeconds(statusSeconds)} to ${formatSeconds(newStatusSeconds)} `
-                    + `due to Electrolux Group API rate limit of ${API_DAILY_LIMIT} calls/day`);
+                    + `due to Electrolux Group API rate limit of ${budget} calls/day`);
         this.log.warn(`With ${plural(robots, 'robot vacuum cleaner')} this reduces the polling rate from `
                     + `${dailyCalls(statusSeconds)} to ${dailyCalls(newStatusSeconds)} calls/day`);
         this.log.warn('Increase the value of pollIntervals.statusSeconds in the homebridge config.json file');
     }
-}
\ No newline at end of file
+
+    // Periodically adjust the polling interval to stay within the daily API quota
+    async monitorQuota(): Promise<void> {
+        try {
+            await this.api.ua.quota.loaded;
+            let loggedAt = 0;
+            for (;;) {
+                this.adjustPollingInterval();
+                if (loggedAt + QUOTA_LOG_INTERVAL_MS <= Date.now()) {
+                    this.logQuota();
+                    loggedAt = Date.now();
+                }
+                await setTimeout(QUOTA_CHECK_INTERVAL_MS, undefined, { ref: false });
+            }
+        } catch (err) {
+            logError(this.log, 'API quota', err);
+        }
+    }
+
+    // Stretch the polling interval if the daily API quota would be exceeded
+    adjustPollingInterval(): void {
+        // Share the remainder of the budget (after non-polling calls) between the robots
+        const robots = this.robots.size;
+        const quota = this.api.ua.quota;
+        const { other } = quota.usage;
+        const pollBudget = Math.max(quota.budget * API_POLL_FRACTION - other, robots);
+        let seconds = Math.max(this.config.pollIntervals.statusSeconds,
+                               Math.ceil(robots * QUOTA_WINDOW_MS / MS / pollBudget));
+
+        // If the quota has been exhausted then wait for calls to leave the window
+        if (quota.remaining < robots) seconds = Math.max(seconds, Math.ceil(quota.nextExpiry / MS));
+
+        // Ignore small changes, unless restoring the configured interval
+        const { statusSeconds } = this.config.pollIntervals;
+        const previous = this.pollSeconds ?? statusSeconds;
+        if (seconds === previous) return;
+        if (seconds !== statusSeconds
+            && Math.abs(seconds - previous) < previous * POLL_INTERVAL_HYSTERESIS) return;
+
+        // Apply the change to all robots
+        this.pollSeconds = seconds;
+        this.robots.forEach(robot => { robot.setPollInterval(seconds * MS); });
+        if (seconds === statusSeconds) {
+            this.log.info(`Restored polling interval to ${formatSeconds(seconds)}`);
+        } else {
+            this.log.warn(`Polling interval changed from ${formatSeconds(previous)} to ${formatSeconds(seconds)} `
+                        + `to remain within the Electrolux Group API daily quota (${quota.remaining} calls remaining)`);
+        }
+    }
+
+    // Log the usage of the daily API quota
+    logQuota(): void {
+        const quota = this.api.ua.quota;
+        const { polls, other, total } = quota.usage;
+        this.log.info(`Electrolux Group API usage ${total}/${quota.budget} calls in the last 24 hours `
+                    + `(${polls} polling, ${other} other), ${quota.remaining} remaining`);
+    }
+}
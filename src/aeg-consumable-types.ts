@@ -0,0 +1,18 @@
+// Homebridge plugin for AEG RX 9 / Electrolux Pure i9 robot vacuum
+// Copyright © 2026 Alexander Thoukydides
+
+// Consumable parts that wear with use
+export type ConsumableName = 'filter' | 'mainBrush' | 'sideBrushes';
+
+// Wear of a single consumable part since it was last replaced
+export interface ConsumableWear {
+    replaced?:          string;     // ISO 8601 timestamp
+    runTime:            number;     // Milliseconds of cleaning
+}
+
+// Persistent record of the wear of all consumable parts
+export interface ConsumablesWear {
+    filter:             ConsumableWear;
+    mainBrush:          ConsumableWear;
+    sideBrushes:        ConsumableWear;
+}
@@ -0,0 +1,12 @@
+// Homebridge plugin for AEG RX 9 / Electrolux Pure i9 robot vacuum
+// Copyright © 2026 Alexander Thoukydides
+
+// A robot message that has already been reported
+export interface SeenMessage {
+    id:                 number;     // Message ID (may be reused by the robot)
+    timestamp:          number;     // Message timestamp (seconds since the epoch)
+    seen:               number;     // Last reported (milliseconds since the epoch)
+}
+
+// Persistent record of robot messages that have already been reported
+export type SeenMessages = SeenMessage[];
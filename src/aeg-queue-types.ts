@@ -0,0 +1,11 @@
+// Homebridge plugin for AEG RX 9 / Electrolux Pure i9 robot vacuum
+// Copyright © 2026 Alexander Thoukydides
+
+import { RX9CleaningCommand } from './aegapi-rx9-types.js';
+
+// Persistent cleaning command queued while the robot is unreachable
+export interface QueuedCommand {
+    command:            RX9CleaningCommand;
+    queued:             string;     // ISO 8601 timestamp
+    expires:            string;     // ISO 8601 timestamp
+}
@@ -0,0 +1,8 @@
+// Homebridge plugin for AEG RX 9 / Electrolux Pure i9 robot vacuum
+// Copyright © 2026 Alexander Thoukydides
+
+// Persistent record of cleaning deferred until the end of quiet hours
+export interface DeferredCleaning {
+    deferred:           string;     // ISO 8601 timestamp
+    until:              string;     // ISO 8601 timestamp
+}
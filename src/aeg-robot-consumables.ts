@@ -0,0 +1,160 @@
+// Homebridge plugin for AEG RX 9 / Electrolux Pure i9 robot vacuum
+// Copyright © 2026 Alexander Thoukydides
+
+import { Logger } from 'homebridge';
+
+import nodePersist from 'node-persist';
+
+import { AEGRobot, DynamicStatus } from './aeg-robot.js';
+import { ConsumableName, ConsumablesWear, ConsumableWear } from './aeg-consumable-types.js';
+import { RX9RobotStatus } from './aegapi-rx9-types.js';
+import { logError, MS } from './utils.js';
+import { checkers } from './ti/aeg-consumable-types.js';
+
+// Consumable parts that are tracked, and their descriptions
+export const CONSUMABLES: ConsumableName[] = ['filter', 'mainBrush', 'sideBrushes'];
+export const consumableNames: Record<ConsumableName, string> = {
+    filter:         'Filter',
+    mainBrush:      'Main Brush',
+    sideBrushes:    'Side Brushes'
+};
+
+// Status values indicating the remaining life of each consumable part
+export type ConsumableLifeEvent = `${ConsumableName}Life`;
+
+// Interval between saves of the wear while cleaning
+const SAVE_INTERVAL_MS = 5 * 60 * MS; // (5 minutes)
+
+// Robot activities that wear the consumable parts
+const CLEANING_ACTIVITIES: RX9RobotStatus[] = [
+    RX9RobotStatus.Cleaning,            RX9RobotStatus.SpotCleaning
+];
+
+// Track wear of a robot's consumable parts
+export class AEGRobotConsumables {
+
+    // Logger
+    readonly log: Logger;
+
+    // Name of the key used for persistent storage of the wear
+    private readonly persistKey: string;
+
+    // Wear of each consumable part since it was last replaced
+    private wear: ConsumablesWear = {
+        filter:         { runTime: 0 },
+        mainBrush:      { runTime: 0 },
+        sideBrushes:    { runTime: 0 }
+    };
+
+    // Promise that is resolved when any saved wear has been restored
+    private readonly loaded: Promise<void>;
+    private isLoaded = false;
+
+    // Start of the cleaning time that has not yet been accumulated
+    private cleaningSince?: number;
+
+    // When the wear was last saved
+    private savedAt = 0;
+
+    // Create a new consumables tracker
+    constructor(readonly robot: AEGRobot) {
+        this.log = robot.log;
+        this.persistKey = `consumables:${robot.applianceId}`;
+        this.loaded = this.load();
+
+        // Accumulate cleaning time and update the remaining life
+        const updateActivity = (): void => {
+            const { activity, isStale } = robot.status;
+            this.updateActivity(isStale || robot.isUnreachable ? undefined : activity);
+        };
+        robot.on('activity', updateActivity).on('isStale', updateActivity).on('preUpdate', () => {
+            updateActivity();
+            this.accumulate();
+            this.updateStatus();
+            if (this.cleaningSince !== undefined && SAVE_INTERVAL_MS <= Date.now() - this.savedAt) void this.save();
+        });
+    }
+
+    // Start or stop accumulating cleaning time when the activity changes
+    // (the activity is undefined if not known to be current)
+    updateActivity(activity?: RX9RobotStatus): void {
+        const isCleaning = activity !== undefined && CLEANING_ACTIVITIES.includes(activity);
+        if (isCleaning && this.cleaningSince === undefined) {
+            this.cleaningSince = Date.now();
+        } else if (!isCleaning && this.cleaningSince !== undefined) {
+            this.accumulate();
+            delete this.cleaningSince;
+            void this.save();
+        }
+    }
+
+    // Add any cleaning time since the last update to each consumable part
+    accumulate(): void {
+        if (this.cleaningSince === undefined) return;
+        const now = Date.now();
+        for (const name of CONSUMABLES) this.wear[name].runTime += now - this.cleaningSince;
+        this.cleaningSince = now;
+    }
+
+    // Expected lifetime of a consumable part
+    lifetime(name: ConsumableName): number {
+        return this.robot.config.consumables[`${name}Hours`] * 60 * 60 * MS;
+    }
+
+    // Percentage of the expected lifetime remaining for a consumable part
+    life(name: ConsumableName): number {
+        const remaining = 1 - this.wear[name].runTime / this.lifetime(name);
+        return Math.max(Math.ceil(100 * remaining), 0);
+    }
+
+    // Retrieve the wear of a consumable part
+    getWear(name: ConsumableName): ConsumableWear {
+        return { ...this.wear[name] };
+    }
+
+    // Update the robot status with the remaining life of each consumable part
+    updateStatus(): void {
+        if (!this.isLoaded) return;
+        const update: Partial<Pick<DynamicStatus, ConsumableLifeEvent>> = {};
+        for (const name of CONSUMABLES) update[`${name}Life`] = this.life(name);
+        this.robot.updateStatus(update);
+    }
+
+    // Record replacement of a consumable part
+    async reset(name: ConsumableName): Promise<void> {
+        await this.loaded;
+        this.wear[name] = { replaced: new Date().toISOString(), runTime: 0 };
+        this.log.info(`${consumableNames[name]} replaced`);
+        await this.save();
+        this.robot.updateDerivedAndEmit();
+    }
+
+    // Restore any saved wear, adding any cleaning time already accumulated
+    async load(): Promise<void> {
+        try {
+            const wear: unknown = await nodePersist.getItem(this.persistKey);
+            if (wear === undefined) return;
+            if (!checkers.ConsumablesWear.test(wear)) throw new Error('Unexpected saved consumables format');
+            for (const name of CONSUMABLES) {
+                const { replaced, runTime } = wear[name];
+                this.wear[name] = { replaced, runTime: runTime + this.wear[name].runTime };
+            }
+        } catch (err) {
+            logError(this.log, 'Saved consumables', err);
+        } finally {
+            this.isLoaded = true;
+            this.robot.updateDerivedAndEmit();
+        }
+    }
+
+    // Save the wear of each consumable part
+    async save(): Promise<void> {
+        try {
+            await this.loaded;
+            this.savedAt = Date.now();
+            await nodePersist.setItem(this.persistKey, this.wear);
+        } catch (err) {
+            logError(this.log, 'Saving consumables', err);
+        }
+    }
+}
@@ -3,19 +3,23 @@
 
 import { Logger } from 'homebridge';
 
-import { AEGRobot, SimpleActivity } from './aeg-robot.js';
+import { AEGRobot, AEGRobotDisconnectedError, SimpleActivity } from './aeg-robot.js';
 import { Config } from './config-types.js';
 import { MS, assertIsNotUndefined, logError } from './utils.js';
 import { AEGAPIRX9 } from './aegapi-rx9.js';
-import { RX9CleaningCommand, RX9RobotStatus } from './aegapi-rx9-types.js';
+import { AEGAPICircuitOpenError } from './aegapi-error.js';
+import { RX9CleaningCommand, RX92PowerMode, RX9RobotStatus } from './aegapi-rx9-types.js';
 import { once } from 'node:events';
 
 // Timeout waiting for changes, as a multiple of the status polling interval
 const TIMEOUT_REQUEST_POLL_MULTIPLE = 1;
 const TIMEOUT_APPLIED_POLL_MULTIPLE = 3;
 
+// Timeout waiting for changes when polling more frequently to confirm them
+const TIMEOUT_APPLIED_CONFIRM_MS = 45 * MS; // (45 seconds)
+
 // An abstract AEG RX 9 / Electrolux Pure i9 robot controller
-abstract class AEGRobotCtrl<Type extends number | string> {
+abstract class AEGRobotCtrl<Type extends boolean | number | string> {
 
     // Plugin configuration
     readonly config: Config;
@@ -32,12 +36,16 @@ abstract class AEGRobotCtrl<Type extends number | string> {
     // Abort waiting for a previous target to be applied
     private abortController?: AbortController;
 
+    // Promise that is resolved when the robot accepts the target value
+    private requested?: Promise<void>;
+    private requestedFn?: { resolve: () => void; reject: (reason: unknown) => void };
+
     // Timeout in milliseconds for requesting and waiting for changes
     private readonly requestTimeout: number;
     private readonly appliedTimeout: number;
 
     // Optional mapping of enum target values to text
-    readonly toText?: Record<Type, string>;
+    readonly toText?: Record<`${Type}`, string>;
 
     // Create a new robot controller
     constructor(readonly robot: AEGRobot, readonly name: string) {
@@ -53,56 +61,86 @@ abstract class AEGRobotCtrl<Type extends number | string> {
     }
 
     // Return a set method bound to this instance
-    makeSetter(): (target: Type) => void {
-        return (target) => void (async (): Promise<void> => { await this.set(target); })();
+    makeSetter(): (target: Type) => Promise<void> {
+        return (target) => this.set(target);
     }
 
-    // Request a change to the robot
+    // Request a change to the robot, resolving when the request is accepted
     async set(target: Type): Promise<void> {
         // No new action required if already setting the requested state
         const description = this.description(target);
         if (target === this.target) {
             this.log.debug(`Ignoring duplicate request to ${description}`);
-            return;
+            return this.requested;
         }
 
+        // Queue the request if the robot cannot receive it (replacing any earlier request)
+        if (this.robot.isUnreachable && this.queueTarget(target)) return;
+
         // No action required if already in the required state
         if (this.isTargetSet(target)) {
             this.log.debug(`Ignoring unnecessary request to ${description}`);
             return;
         }
 
+        // Fail immediately if the robot cannot receive the request
+        if (this.robot.isDisconnected) {
+            const err = new AEGRobotDisconnectedError();
+            logError(this.log, `Setting ${this.name}`, err);
+            throw err;
+        }
+
         // Temporarily override the reported status
         this.target = target;
+        if (!this.abortController) ++this.robot.pendingRequests;
         this.robot.updateDerivedAndEmit();
 
+        // Any previous request has been superseded
+        this.requestedFn?.resolve();
+        this.requested = new Promise((resolve, reject) => {
+            this.requestedFn = { resolve, reject };
+        });
+        const requested = this.requested;
+
         // Replace any previous unfinished request
         if (this.abortController) {
             this.abortController.abort();
             this.log.debug(`Changing pending request to ${description}`);
-            return;
+        } else {
+            // Start a new request
+            this.log.debug(`New request to ${description}`);
+            void this.applyTargets(target);
         }
+        return requested;
+    }
 
-        // Start a new request
-        this.log.debug(`New request to ${description}`);
+    // Apply target values until the most recent one has been applied
+    async applyTargets(target: Type): Promise<void> {
         try {
             do {
                 // Create AbortController to abandon waiting for status update
                 this.abortController = new AbortController();
 
                 // Attempt to apply the requested change
-                target = this.target;
+                target = this.target ?? target;
                 await this.trySet(target, this.abortController.signal);
 
             } while (target !== this.target);
 
         } catch (err) {
-            // Failed to apply the update
+            // Failed to apply the update, so queue it if the robot is unreachable
             logError(this.log, `Setting ${this.name}`, err);
+            const isUnreachable = this.robot.isUnreachable || err instanceof AEGAPICircuitOpenError;
+            if (isUnreachable && this.queueTarget(target)) this.requestedFn?.resolve();
+            else this.requestedFn?.reject(err);
         } finally {
             // Clear the status override
+            this.requestedFn?.resolve();
+            delete this.requested;
+            delete this.requestedFn;
             delete this.abortController;
             delete this.target;
+            --this.robot.pendingRequests;
             this.robot.updateDerivedAndEmit();
         }
     }
@@ -112,21 +150,35 @@ abstract class AEGRobotCtrl<Type extends number | string> {
         const description = this.description(target);
         this.log.info(`Attempting to ${description}`);
         let result = 'Failed to';
+        const requestSignal = AbortSignal.any([signal, AbortSignal.timeout(this.requestTimeout)]);
+        let isAccepted = false;
         try {
             // Apply the change
-            const requestSignal = AbortSignal.any([signal, AbortSignal.timeout(this.requestTimeout)]);
             await this.setTarget(target, requestSignal);
+            isAccepted = true;
+            if (target === this.target) this.requestedFn?.resolve();
+
+            // Poll more frequently than usual to confirm the change, if affordable
+            const confirm = this.robot.canConfirmQuickly;
+            const appliedTimeout = confirm ? TIMEOUT_APPLIED_CONFIRM_MS : this.appliedTimeout;
+            const appliedSignal = AbortSignal.any([signal, AbortSignal.timeout(appliedTimeout)]);
+            const confirmController = new AbortController();
+            if (confirm) void this.robot.pollForConfirmation(AbortSignal.any([appliedSignal, confirmController.signal]));
 
             // Wait for status update, change of target state, or timeout
-            const appliedSignal = AbortSignal.any([signal, AbortSignal.timeout(this.appliedTimeout)]);
-            do {
-                await once(this.robot, 'appliance', { signal: appliedSignal });
-            } while (!this.isTargetSet(target));
+            try {
+                do {
+                    await once(this.robot, 'appliance', { signal: appliedSignal });
+                } while (!this.isTargetSet(target));
+            } finally {
+                confirmController.abort();
+            }
             result = 'Successfully';
         } catch (err) {
-            if      (err instanceof DOMException && err.name === 'AbortError')   result = 'Aborted';
-            else if (err instanceof DOMException && err.name === 'TimeoutError') result = 'Timed out';
-            else throw err;
+            // Failures are only reported if the request itself was not accepted
+            if      (signal.aborted) result = 'Aborted';
+            else if (isAccepted)     result = 'Timed out';
+            else throw requestSignal.aborted ? requestSignal.reason : err;
         } finally {
             // Log the result
             this.log.info(`${result} ${description}`);
@@ -135,7 +187,7 @@ abstract class AEGRobotCtrl<Type extends number | string> {
 
     // Describe setting the target value
     description(target: Type): string {
-        const value = this.toText ? this.toText[target] : `"${target}"`;
+        const value = this.toText ? this.toText[`${target}`] : `"${target}"`;
         return `set ${this.name} to ${value}`;
     }
 
@@ -147,6 +199,11 @@ abstract class AEGRobotCtrl<Type extends number | string> {
 
     // Override the status while a requested change is pending
     abstract overrideStatus(target: Type): void;
+
+    // Queue the requested state until the robot is reachable, if supported
+    queueTarget(_target: Type): boolean {
+        return false;
+    }
 }
 
 // Robot controller for changing the activity
@@ -202,4 +259,171 @@ export class AEGRobotCtrlActivity extends AEGRobotCtrl<RX9CleaningCommand> {
         };
         this.robot.status.simpleActivity = commandToActivity[command];
     }
-}
\ No newline at end of file
+
+    // Apply any quiet hours restrictions before changing the activity
+    async set(command: RX9CleaningCommand): Promise<void> {
+        if (!this.robot.allowActivity(command, this.isTargetSet(command) === true)) return;
+        return super.set(command);
+    }
+
+    // Queue the requested activity until the robot is reachable, if enabled
+    queueTarget(command: RX9CleaningCommand): boolean {
+        return this.robot.queueActivity(command);
+    }
+}
+
+// Robot controller for changing the cleaning power mode
+export class AEGRobotCtrlPower extends AEGRobotCtrl<RX92PowerMode> {
+
+    // Mapping of power modes to text
+    readonly toText: Record<`${RX92PowerMode}`, string> = {
+        [RX92PowerMode.Quiet]:  'QUIET',
+        [RX92PowerMode.Smart]:  'SMART',
+        [RX92PowerMode.Power]:  'POWER'
+    };
+
+    // Create a new robot controller for changing the power mode
+    constructor(readonly robot: AEGRobot) {
+        super(robot, 'power mode');
+    }
+
+    // Check whether the robot is using the required power mode
+    isTargetSet(power: RX92PowerMode): boolean | null {
+        const { rawPower, rawEco } = this.robot.status;
+        if (rawPower !== undefined) return rawPower === power;
+        if (rawEco   !== undefined) return rawEco === AEGRobotCtrlPower.toEco(power);
+        return null;
+    }
+
+    // Attempt to set the requested state
+    async setTarget(power: RX92PowerMode, signal?: AbortSignal): Promise<void> {
+        const { rawPower, rawEco } = this.robot.status;
+        if (rawPower !== undefined) {
+            await this.api.setPowerMode(power, signal);
+        } else if (rawEco !== undefined) {
+            await this.api.setEcoMode(AEGRobotCtrlPower.toEco(power), signal);
+        } else {
+            throw new Error('Robot has not reported its power mode');
+        }
+    }
+
+    // Override the status while a requested change is pending
+    overrideStatus(power: RX92PowerMode): void {
+        const { rawPower, rawEco } = this.robot.status;
+        if (rawPower !== undefined) this.robot.status.power = power;
+        if (rawEco   !== undefined) this.robot.status.eco   = AEGRobotCtrlPower.toEco(power);
+    }
+
+    // AEG RX9.1 only supports ECO mode on or off (equivalent to full power)
+    static toEco(power: RX92PowerMode): boolean {
+        return power !== RX92PowerMode.Power;
+    }
+}
+
+// Robot controller for muting the voice prompts
+export class AEGRobotCtrlMute extends AEGRobotCtrl<boolean> {
+
+    // Mapping of mute states to text
+    readonly toText = { true: 'MUTED', false: 'UNMUTED' };
+
+    // Create a new robot controller for muting the voice prompts
+    constructor(readonly robot: AEGRobot) {
+        super(robot, 'voice prompts');
+    }
+
+    // Check whether the voice prompts are in the required state
+    isTargetSet(mute: boolean): boolean | null {
+        if (this.robot.status.mute === undefined) return null;
+        return this.robot.status.mute === mute;
+    }
+
+    // Attempt to set the requested state
+    async setTarget(mute: boolean, signal?: AbortSignal): Promise<void> {
+        await this.api.setMute(mute, signal);
+    }
+
+    // Override the status while a requested change is pending
+    overrideStatus(mute: boolean): void {
+        this.robot.status.mute = mute;
+    }
+}
+
+// Robot controller for renaming the robot
+export class AEGRobotCtrlName extends AEGRobotCtrl<string> {
+
+    // Create a new robot controller for changing the name
+    constructor(readonly robot: AEGRobot) {
+        super(robot, 'name');
+    }
+
+    // Check whether the robot already has the required name
+    isTargetSet(name: string): boolean | null {
+        return this.robot.status.name === name;
+    }
+
+    // Attempt to set the requested state
+    async setTarget(name: string, signal?: AbortSignal): Promise<void> {
+        await this.api.setApplianceName(name, signal);
+    }
+
+    // Override the status while a requested change is pending
+    overrideStatus(name: string): void {
+        this.robot.status.name = name;
+    }
+}
+
+// Robot controller for selecting the voice prompt language
+export class AEGRobotCtrlLanguage extends AEGRobotCtrl<string> {
+
+    // Create a new robot controller for selecting the language
+    constructor(readonly robot: AEGRobot) {
+        super(robot, 'language');
+    }
+
+    // Check whether the robot is using the required language
+    isTargetSet(language: string): boolean | null {
+        if (this.robot.status.language === undefined) return null;
+        return this.robot.status.language === language;
+    }
+
+    // Attempt to set the requested state
+    async setTarget(language: string, signal?: AbortSignal): Promise<void> {
+        await this.api.setLanguage(language, signal);
+    }
+
+    // Override the status while a requested change is pending
+    overrideStatus(language: string): void {
+        this.robot.status.language = language;
+    }
+}
+
+// Robot controller for enabling or disabling a scheduled task
+export class AEGRobotCtrlTask extends AEGRobotCtrl<boolean> {
+
+    // Mapping of enabled states to text
+    readonly toText = { true: 'ENABLED', false: 'DISABLED' };
+
+    // Create a new robot controller for enabling or disabling a scheduled task
+    constructor(readonly robot: AEGRobot, readonly id: string) {
+        super(robot, `scheduled task ${id}`);
+    }
+
+    // Check whether the scheduled task is in the required state
+    isTargetSet(enabled: boolean): boolean | null {
+        const task = this.robot.tasks[this.id];
+        if (task === undefined) return null;
+        return task.enabled === enabled;
+    }
+
+    // Attempt to set the requested state
+    async setTarget(enabled: boolean, signal?: AbortSignal): Promise<void> {
+        await this.api.setTaskEnabled(this.id, enabled, signal);
+    }
+
+    // Override the status while a requested change is pending
+    overrideStatus(enabled: boolean): void {
+        const { taskIds, enabledTaskIds = [] } = this.robot.status;
+        this.robot.status.enabledTaskIds = taskIds.filter(id =>
+            id === this.id ? enabled : enabledTaskIds.includes(id));
+    }
+}
@@ -3,7 +3,11 @@
 
 import { Logger, LogLevel } from 'homebridge';
 
-import { AEGRobot } from './aeg-robot.js';
+import { AEGRobot, AEGRobotDisconnectedError } from './aeg-robot.js';
+import { AEGAPIAuthorisationError, AEGAPICircuitOpenError } from './aegapi-error.js';
+import { CleaningSession, CleaningSessionFinish } from './aeg-session-types.js';
+import { describeMessage, isCataloguedErrorID, MessageSeverity } from './aeg-robot-messages.js';
+import { CONSUMABLES, consumableNames } from './aeg-robot-consumables.js';
 import { formatList, formatMilliseconds, MS, plural } from './utils.js';
 import { RX9BatteryStatus, RX9Capabilities, RX9Dustbin, RX9Message,
          RX92PowerMode, RX9RobotStatus } from './aegapi-rx9-types.js';
@@ -51,6 +55,31 @@ const powerModeNames: Record<RX92PowerMode, string> = {
     [RX92PowerMode.Power]:  'POWER (optimal cleaning performance, higher energy consumption)'
 };
 
+// Log levels used for robot messages
+const messageLevels: Record<MessageSeverity, LogLevel> = {
+    [MessageSeverity.Info]:                     LogLevel.INFO,
+    [MessageSeverity.Warning]:                  LogLevel.WARN,
+    [MessageSeverity.Error]:                    LogLevel.ERROR
+};
+
+// Descriptions of how cleaning sessions finished
+const sessionFinishNames: Record<CleaningSessionFinish, string> = {
+    'Returned Home':                            'returned HOME',
+    'Error':                                    'ended in an ERROR state',
+    'Stopped':                                  'STOPPED before returning home'
+};
+
+// Descriptions of ISO 639-2 language codes
+const languageNames = new Intl.DisplayNames(['en'], { type: 'language' });
+function languageName(language: string): string {
+    try {
+        const name = languageNames.of(language);
+        return name && name !== language ? `${name} (${language})` : `"${language}"`;
+    } catch {
+        return `"${language}"`;
+    }
+}
+
 // Logging of information about a robot
 export class AEGRobotLog {
 
@@ -60,12 +89,18 @@ export class AEGRobotLog {
     // Reported error messages
     private readonly loggedHealthErrors = new Set<string>();
 
+    // Most recently logged scheduled tasks
+    private loggedTasks = '{}';
+
     // Construct a robot logger
     constructor(readonly robot: AEGRobot) {
         this.log = robot.log;
         this.logOnce();
         this.logStatus();
+        this.logTasks();
         this.logMessages();
+        this.logSessions();
+        this.logConsumables();
     }
 
     // Log static information about the robot once at startup
@@ -82,7 +117,9 @@ export class AEGRobotLog {
 
     // Log initial values and changes for other status
     logStatus(): void {
-        this.robot.on('capabilities', (capabilities: RX9Capabilities[]) => {
+        this.robot.on('name', (name: string, oldName?: string) => {
+            if (oldName) this.log.info(`Renamed from "${oldName}" to "${name}"`);
+        }).on('capabilities', (capabilities: RX9Capabilities[]) => {
             this.log.info(`Supports ${plural(capabilities.length, 'capability')}: ${formatList([...capabilities].sort())}`);
         }).on('hardware', (hardware: string) => {
             this.log.info(`Hardware platform ${hardware}`);
@@ -103,12 +140,29 @@ export class AEGRobotLog {
         }).on('rawEco', (eco?: boolean) => {
             if (eco === undefined) this.log.info('Unknown ECO mode');
             else this.log.info(`ECO mode is ${eco ? 'enabled' : 'disabled'}`);
+        }).on('availableLanguages', (languages: string[]) => {
+            const names = languages.map(languageName).sort();
+            this.log.info(`Supports ${plural(languages.length, 'voice prompt language')}: ${formatList(names)}`);
+            const language = this.robot.robotConfig?.language;
+            if (language !== undefined && languages.length && !languages.includes(language))
+                this.log.warn(`Configured language ${languageName(language)} is not supported by this robot`);
+        }).on('language', (language?: string) => {
+            if (language === undefined) this.log.info('Unknown voice prompt language');
+            else this.log.info(`Voice prompt language is ${languageName(language)}`);
+        }).on('mute', (mute?: boolean) => {
+            if (mute === undefined) this.log.info('Unknown voice prompt mute state');
+            else this.log.info(`Voice prompts are ${mute ? 'muted' : 'not muted'}`);
         }).on('enabled', (enabled: boolean) => {
             this.log.log(enabled ? LogLevel.INFO : LogLevel.WARN,
                          `Robot is ${enabled ? 'enabled' : 'disabled'}`);
         }).on('connected', (connected: boolean) => {
             this.log.log(connected ? LogLevel.INFO : LogLevel.WARN,
                          `Robot ${connected ? 'is' : 'is NOT'} connected to the cloud servers`);
+        }).on('isStuck', (isStuck?: boolean) => {
+            if (isStuck) this.log.warn('Robot appears to be STUCK');
+        }).on('needsAttention', (needsAttention?: boolean, oldNeedsAttention?: boolean) => {
+            if (needsAttention) this.log.warn('Robot NEEDS ATTENTION');
+            else if (oldNeedsAttention) this.log.info('Robot no longer needs attention');
         }).on('isError', (err?: unknown) => { this.logHealth(err); });
     }
 
@@ -118,7 +172,15 @@ export class AEGRobotLog {
             const message = err instanceof Error ? err.message : JSON.stringify(err);
             if (!this.loggedHealthErrors.has(message)) {
                 this.loggedHealthErrors.add(message);
-                this.log.error(`Lost connection to cloud servers: ${message}`);
+                if (err instanceof AEGAPIAuthorisationError) {
+                    this.log.error(`Electrolux Group API credentials rejected: ${message}`);
+                } else if (err instanceof AEGAPICircuitOpenError || this.robot.status.isServerError === err) {
+                    this.log.error(`Electrolux Group cloud servers unreachable: ${message}`);
+                } else if (err instanceof AEGRobotDisconnectedError) {
+                    this.log.error(message);
+                } else {
+                    this.log.error(`Lost connection to cloud servers: ${message}`);
+                }
             }
         } else {
             this.loggedHealthErrors.clear();
@@ -126,6 +188,26 @@ export class AEGRobotLog {
         }
     }
 
+    // Log changes to the scheduled tasks
+    logTasks(): void {
+        this.robot.on('appliance', () => {
+            const tasks = JSON.stringify(this.robot.tasks);
+            if (tasks === this.loggedTasks) return;
+            this.loggedTasks = tasks;
+            const ids = this.robot.status.taskIds;
+            this.log.info(plural(ids.length, 'scheduled task'));
+            for (const id of ids) {
+                const task = this.robot.tasks[id];
+                if (!task) continue;
+                const { weekDays, time, properties } = task.start;
+                const days = weekDays.map(day => day.charAt(0).toUpperCase() + day.slice(1));
+                const powers = [...new Set(properties.zones.map(zone => RX92PowerMode[zone.powerMode].toUpperCase()))];
+                this.log.info(`Scheduled task ${id} ${task.enabled ? 'enabled' : 'DISABLED'}: `
+                              + `${formatList(days)} at ${time} (${formatList(powers)})`);
+            }
+        });
+    }
+
     // Log messages from the robot
     logMessages(): void {
         this.robot.on('message', (message: RX9Message) => {
@@ -133,8 +215,45 @@ export class AEGRobotLog {
             const bits = [`type=${message.type}`];
             if (message.userErrorID)     bits.push(`user-error=${message.userErrorID}`);
             if (message.internalErrorID) bits.push(`internal-error=${message.internalErrorID}`);
-            this.log.warn(`Message: ${message.text} (${age})`);
-            this.log.debug(`Message: ${formatList(bits)}`);
+            const { severity, category, advice } = describeMessage(message);
+            this.log.log(messageLevels[severity], `Message: ${message.text} (${age})`);
+            if (advice) this.log.info(`Suggested action: ${advice}`);
+            else this.log.debug('No suggested action (refer to the robot\'s user manual or the AEG app)');
+            this.log.debug(`Message: ${formatList(bits)} (${category})`);
+            if ((message.userErrorID || message.internalErrorID) && !isCataloguedErrorID(message)) {
+                this.log.debug(`Error IDs (${formatList(bits)}) are not catalogued; please report them with the message text`);
+            }
         });
     }
+
+    // Log a summary of each completed cleaning session
+    logSessions(): void {
+        this.robot.on('session', (session: CleaningSession) => {
+            const { duration, paused, pitstops, finish, powerModes, messages } = session;
+            const bits = [`cleaned for ${formatMilliseconds(duration - paused)}`];
+            if (paused)            bits.push(`paused for ${formatMilliseconds(paused)}`);
+            if (pitstops)          bits.push(plural(pitstops, 'pitstop'));
+            if (powerModes.length) bits.push(`power ${powerModes.join('/')}`);
+            if (messages.length)   bits.push(plural(messages.length, 'message'));
+            const level = finish === 'Error' ? LogLevel.WARN : LogLevel.INFO;
+            this.log.log(level, `Cleaning session ${sessionFinishNames[finish]}: ${formatList(bits)}`);
+        });
+    }
+
+    // Log the initial wear of consumable parts, and when they are worn out
+    logConsumables(): void {
+        for (const name of CONSUMABLES) {
+            this.robot.on(`${name}Life`, (life?: number, oldLife?: number) => {
+                if (life === undefined) return;
+                const { replaced, runTime } = this.robot.getConsumableWear(name);
+                const used = (runTime ? `used for ${formatMilliseconds(runTime)}` : 'unused')
+                           + (replaced ? ` since replaced ${replaced}` : '');
+                if (life === 0 && oldLife !== 0) {
+                    this.log.warn(`${consumableNames[name]} should be replaced (${used})`);
+                } else if (oldLife === undefined) {
+                    this.log.info(`${consumableNames[name]} has ${life}% of its lifetime remaining (${used})`);
+                }
+            });
+        }
+    }
 }
@@ -0,0 +1,141 @@
+// Homebridge plugin for AEG RX 9 / Electrolux Pure i9 robot vacuum
+// Copyright © 2026 Alexander Thoukydides
+
+import { RX9Message } from './aegapi-rx9-types.js';
+
+// Severity of a robot message
+export enum MessageSeverity {
+    Info    = 'Info',       // Informational only
+    Warning = 'Warning',    // Attention required soon
+    Error   = 'Error'       // Robot cannot continue without intervention
+}
+
+// Type of problem described by a robot message
+export type MessageCategory =
+    'Stuck'
+  | 'Brush Jammed'
+  | 'Dustbin'
+  | 'Filter'
+  | 'Cliff Sensor'
+  | 'Camera'
+  | 'Wheels'
+  | 'Battery'
+  | 'Unknown';
+
+// Description of a robot message
+export interface MessageDescription {
+    severity:       MessageSeverity;
+    category:       MessageCategory;
+    advice?:        string;     // Suggested action, if known
+}
+
+// Catalogue entry, matched by error ID or (as a last resort) English message text
+interface MessageCatalogueEntry {
+    userErrorIDs?:      number[];   // Only IDs that have been observed
+    internalErrorIDs?:  number[];
+    text:               RegExp;     // Fails if the robot uses another language
+    description:        MessageDescription;
+}
+
+// Catalogue of known robot messages
+const MESSAGE_CATALOGUE: MessageCatalogueEntry[] = [{
+    userErrorIDs:       [15],       // 'Please help me get free'
+    internalErrorIDs:   [10005],
+    text:           /\b(get free|stuck|trapped|lifted)\b/i,
+    description: {
+        severity:   MessageSeverity.Error,
+        category:   'Stuck',
+        advice:     'Move the robot to an open area of floor, then resume cleaning'
+    }
+}, {
+    text:           /\bbrush/i,
+    description: {
+        severity:   MessageSeverity.Error,
+        category:   'Brush Jammed',
+        advice:     'Remove the brush roll and side brushes, and clear any hair, string, or other debris'
+    }
+}, {
+    text:           /\b(dust ?bin|bin)\b/i,
+    description: {
+        severity:   MessageSeverity.Warning,
+        category:   'Dustbin',
+        advice:     'Empty the dust collection bin and check that it is fitted correctly'
+    }
+}, {
+    text:           /\bfilter/i,
+    description: {
+        severity:   MessageSeverity.Warning,
+        category:   'Filter',
+        advice:     'Clean or replace the filter'
+    }
+}, {
+    text:           /\b(cliff|drop) sensor/i,
+    description: {
+        severity:   MessageSeverity.Error,
+        category:   'Cliff Sensor',
+        advice:     'Wipe the cliff sensors on the underside of the robot with a dry cloth'
+    }
+}, {
+    text:           /\b(3D ?vision|camera|lens)\b/i,
+    description: {
+        severity:   MessageSeverity.Error,
+        category:   'Camera',
+        advice:     'Wipe the 3D Vision camera window at the front of the robot with a dry cloth'
+    }
+}, {
+    text:           /\bwheel/i,
+    description: {
+        severity:   MessageSeverity.Error,
+        category:   'Wheels',
+        advice:     'Check that the wheels turn freely, and remove any debris'
+    }
+}, {
+    text:           /\b(battery|charg)/i,
+    description: {
+        severity:   MessageSeverity.Warning,
+        category:   'Battery',
+        advice:     'Place the robot on its charging dock, and check that the dock is powered'
+    }
+}];
+
+// Severity of messages that are not in the catalogue, by message type
+// (only types that have been observed; others depend on any error IDs)
+const MESSAGE_TYPE_SEVERITY: Partial<Record<number, MessageSeverity>> = {
+    0:  MessageSeverity.Error       // e.g. 'Please help me get free'
+};
+
+// Relative importance of the message severities
+const SEVERITY_ORDER = [MessageSeverity.Info, MessageSeverity.Warning, MessageSeverity.Error];
+
+// Describe a robot message
+export function describeMessage(message: RX9Message): MessageDescription {
+    const entry = findCatalogueEntryByID(message)
+               ?? MESSAGE_CATALOGUE.find(entry => entry.text.test(message.text));
+    if (entry) return entry.description;
+
+    // Use the message type to select a severity for unknown messages
+    const isError = message.userErrorID !== undefined || message.internalErrorID !== undefined;
+    const severity = MESSAGE_TYPE_SEVERITY[message.type]
+                  ?? (isError ? MessageSeverity.Warning : MessageSeverity.Info);
+    return { severity, category: 'Unknown' };
+}
+
+// Find the catalogue entry for a robot message by its user or internal error ID
+function findCatalogueEntryByID({ userErrorID, internalErrorID }: RX9Message): MessageCatalogueEntry | undefined {
+    return MESSAGE_CATALOGUE.find(entry => userErrorID !== undefined
+                                           && entry.userErrorIDs?.includes(userErrorID))
+        ?? MESSAGE_CATALOGUE.find(entry => internalErrorID !== undefined
+                                           && entry.internalErrorIDs?.includes(internalErrorID));
+}
+
+// Check whether a robot message's error IDs are in the catalogue
+export function isCataloguedErrorID(message: RX9Message): boolean {
+    return findCatalogueEntryByID(message) !== undefined;
+}
+
+// Select the most severe of a list of messages
+export function mostSevereMessage(messages: RX9Message[]): MessageDescription | undefined {
+    return messages.map(describeMessage).reduce<MessageDescription | undefined>((worst, description) =>
+        worst && SEVERITY_ORDER.indexOf(description.severity) <= SEVERITY_ORDER.indexOf(worst.severity)
+        ? worst : description, undefined);
+}
@@ -0,0 +1,117 @@
+// Homebridge plugin for AEG RX 9 / Electrolux Pure i9 robot vacuum
+// Copyright © 2026 Alexander Thoukydides
+
+import { Logger } from 'homebridge';
+
+import nodePersist from 'node-persist';
+
+import { AEGRobot } from './aeg-robot.js';
+import { QueuedCommand } from './aeg-queue-types.js';
+import { RX9CleaningCommand } from './aegapi-rx9-types.js';
+import { formatMilliseconds, logError, MS } from './utils.js';
+import { checkers } from './ti/aeg-queue-types.js';
+
+// Hold the most recent cleaning command until the robot can receive it
+export class AEGRobotQueue {
+
+    // Logger
+    readonly log: Logger;
+
+    // Name of the key used for persistent storage of the queued command
+    private readonly persistKey: string;
+
+    // The queued command, if any
+    private queued?: QueuedCommand;
+
+    // Command currently being delivered
+    private delivering?: QueuedCommand;
+
+    // Promise that is resolved when any saved command has been restored
+    private readonly loaded: Promise<void>;
+
+    // Create a new command queue
+    constructor(readonly robot: AEGRobot) {
+        this.log = robot.log;
+        this.persistKey = `queue:${robot.applianceId}`;
+        this.loaded = this.load();
+
+        // Attempt delivery whenever fresh status is received
+        robot.on('appliance', () => { void this.deliver(); });
+    }
+
+    // Time for which commands are held, or undefined if queueing is disabled
+    get expiry(): number | undefined {
+        const minutes = this.robot.robotConfig?.queueMinutes;
+        return minutes ? minutes * 60 * MS : undefined;
+    }
+
+    // Queue a command, replacing any previously queued command
+    enqueue(command: RX9CleaningCommand): boolean {
+        const expiry = this.expiry;
+        if (expiry === undefined) return false;
+
+        // A command that could not be delivered retains its original expiry
+        const now = Date.now();
+        const expires = this.delivering?.command === command
+                        ? this.delivering.expires : new Date(now + expiry).toISOString();
+        if (this.queued && this.queued.command !== command) {
+            this.log.info(`Replacing queued activity "${this.queued.command}"`);
+        }
+        this.queued = { command, queued: new Date(now).toISOString(), expires };
+        const remaining = formatMilliseconds(Date.parse(expires) - now);
+        this.log.info(`Queued activity "${command}" until the robot is reachable (expires in ${remaining})`);
+        void this.save();
+        return true;
+    }
+
+    // Deliver any queued command if the robot is reachable
+    async deliver(): Promise<void> {
+        await this.loaded;
+        const queued = this.queued;
+        if (!queued || this.delivering || this.robot.isUnreachable || this.robot.status.isStale) return;
+        delete this.queued;
+        void this.save();
+
+        // Discard the command if it has expired
+        const age = formatMilliseconds(Date.now() - Date.parse(queued.queued));
+        if (Date.parse(queued.expires) <= Date.now()) {
+            this.log.warn(`Dropping stale queued activity "${queued.command}" (queued ${age} ago)`);
+            return;
+        }
+
+        // Attempt to deliver the command
+        this.log.info(`Delivering queued activity "${queued.command}" (queued ${age} ago)`);
+        try {
+            this.delivering = queued;
+            await this.robot.setActivity(queued.command);
+        } catch {
+            // Error already logged
+        } finally {
+            delete this.delivering;
+        }
+    }
+
+    // Restore any saved command
+    async load(): Promise<void> {
+        try {
+            const queued: unknown = await nodePersist.getItem(this.persistKey);
+            if (queued === undefined || this.queued) return;
+            if (!checkers.QueuedCommand.test(queued)) throw new Error('Unexpected saved queue format');
+            this.queued = queued;
+            this.log.info(`Restored queued activity "${queued.command}"`);
+        } catch (err) {
+            logError(this.log, 'Saved queue', err);
+        }
+    }
+
+    // Save the queued command
+    async save(): Promise<void> {
+        try {
+            await this.loaded;
+            if (this.queued) await nodePersist.setItem(this.persistKey, this.queued);
+            else await nodePersist.removeItem(this.persistKey);
+        } catch (err) {
+            logError(this.log, 'Saving queue', err);
+        }
+    }
+}
@@ -0,0 +1,257 @@
+// Homebridge plugin for AEG RX 9 / Electrolux Pure i9 robot vacuum
+// Copyright © 2026 Alexander Thoukydides
+
+import { Logger } from 'homebridge';
+
+import nodePersist from 'node-persist';
+import { setTimeout } from 'node:timers/promises';
+
+import { AEGRobot } from './aeg-robot.js';
+import { DeferredCleaning } from './aeg-quiet-types.js';
+import { Weekday } from './config-types.js';
+import { RX9CleaningCommand } from './aegapi-rx9-types.js';
+import { logError, MS } from './utils.js';
+import { checkers } from './ti/aeg-quiet-types.js';
+
+// Interval between checking for the start or end of quiet hours
+const CHECK_INTERVAL_MS = 60 * MS; // (1 minute)
+
+// Days of the week, indexed by Date.getDay()
+const WEEKDAYS: Weekday[] = [
+    'Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'
+];
+
+// A parsed quiet hours period
+interface QuietPeriod {
+    days?:      Weekday[];
+    start:      [number, number];   // Hours and minutes
+    end:        [number, number];
+}
+
+// Cleaning was not started because of quiet hours
+export class AEGRobotQuietHoursError extends Error {
+    constructor(readonly until: Date) {
+        super(`Cleaning is not allowed during quiet hours (until ${formatTime(until)})`);
+        this.name = 'Robot Quiet Hours Error';
+    }
+}
+
+// Format a local time of day
+function formatTime(date: Date): string {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+// Restrict when a robot may start cleaning
+export class AEGRobotQuietHours {
+
+    // Logger
+    readonly log: Logger;
+
+    // Name of the key used for persistent storage of any deferred cleaning
+    private readonly persistKey: string;
+
+    // Configured quiet hours
+    private readonly periods: QuietPeriod[] = [];
+
+    // End of the current quiet hours, if any
+    private quietUntil?: Date;
+
+    // Has the robot been muted for the current quiet hours
+    private isMuted = false;
+
+    // Cleaning deferred until the end of the current quiet hours, if any
+    private deferred?: DeferredCleaning;
+
+    // Create a new quiet hours manager
+    constructor(readonly robot: AEGRobot) {
+        this.log = robot.log;
+        this.persistKey = `quiet:${robot.applianceId}`;
+
+        // Update the status when the quiet hours start or end
+        robot.on('preUpdate', () => {
+            robot.updateStatus({
+                isQuietHours:       this.quietUntil !== undefined,
+                isCleanDeferred:    this.deferred !== undefined
+            });
+        });
+        robot.on('appliance', () => { this.check(); });
+
+        // Apply the configured quiet hours immediately, without waiting for the API
+        const config = robot.robotConfig?.quietHours ?? [];
+        for (const { days, start, end } of config) {
+            const startTime = AEGRobotQuietHours.parseTime(start);
+            const endTime   = AEGRobotQuietHours.parseTime(end);
+            if (startTime && endTime) this.periods.push({ days, start: startTime, end: endTime });
+            else this.log.warn(`Ignoring invalid quiet hours "${start}" to "${end}" (expected HH:MM)`);
+        }
+        robot.updateStatus({ quietOverride: false });
+        this.quietUntil = this.findQuietUntil();
+        if (this.quietUntil) this.log.info(`Quiet hours until ${formatTime(this.quietUntil)}`);
+    }
+
+    // Restore any deferred cleaning and start monitoring the quiet hours
+    async start(): Promise<void> {
+        if (!this.periods.length) return;
+        await this.load();
+        void this.monitor();
+    }
+
+    // Parse a local time of day
+    static parseTime(time: string): [number, number] | undefined {
+        const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(time.trim());
+        if (match?.[1] === undefined || match[2] === undefined) return;
+        return [Number(match[1]), Number(match[2])];
+    }
+
+    // Periodically check for the start or end of quiet hours
+    async monitor(): Promise<void> {
+        try {
+            for (;;) {
+                this.check();
+                await setTimeout(CHECK_INTERVAL_MS, undefined, { ref: false });
+            }
+        } catch (err) {
+            logError(this.log, 'Quiet hours', err);
+        }
+    }
+
+    // End of any quiet hours containing the specified time
+    findQuietUntil(now = new Date()): Date | undefined {
+        for (const { days, start, end } of this.periods) {
+            // Check periods starting today or yesterday (in case it spans midnight)
+            for (const offset of [0, -1]) {
+                const from = new Date(now);
+                from.setDate(from.getDate() + offset);
+                const weekday = WEEKDAYS[from.getDay()];
+                if (days && weekday !== undefined && !days.includes(weekday)) continue;
+                from.setHours(...start, 0, 0);
+                const to = new Date(from);
+                to.setHours(...end, 0, 0);
+                if (to <= from) to.setDate(to.getDate() + 1);
+                if (from <= now && now < to) return to;
+            }
+        }
+    }
+
+    // Handle the start or end of quiet hours
+    check(): void {
+        if (!this.periods.length) return;
+        const quietUntil = this.findQuietUntil();
+        const wasQuiet = this.quietUntil !== undefined;
+        this.quietUntil = quietUntil;
+        if (quietUntil && !wasQuiet) {
+            this.log.info(`Quiet hours until ${formatTime(quietUntil)}`);
+            this.robot.updateDerivedAndEmit();
+        } else if (!quietUntil && wasQuiet) {
+            this.log.info('Quiet hours have ended');
+            this.endQuietHours();
+            this.robot.updateDerivedAndEmit();
+        }
+        if (quietUntil) this.muteIfRequired();
+    }
+
+    // Mute the voice prompts once during each quiet hours, if configured
+    muteIfRequired(): void {
+        if (!this.robot.robotConfig?.quietHoursMute || this.isMuted) return;
+        if (this.robot.status.mute !== false || this.robot.status.isStale) return;
+        this.isMuted = true;
+        this.log.info('Muting voice prompts during quiet hours');
+        this.robot.setMute(true).catch(() => { /* Error already logged */ });
+    }
+
+    // Restore normal operation after quiet hours
+    endQuietHours(): void {
+        // Unmute the voice prompts if they were muted automatically
+        if (this.isMuted) {
+            this.isMuted = false;
+            this.log.info('Unmuting voice prompts after quiet hours');
+            this.robot.setMute(false).catch(() => { /* Error already logged */ });
+        }
+
+        // Start any deferred cleaning
+        this.startDeferred();
+
+        // The override only applies to a single quiet hours period
+        if (this.robot.status.quietOverride) this.setOverride(false);
+    }
+
+    // Start any cleaning that was deferred during quiet hours
+    startDeferred(): void {
+        if (!this.deferred) return;
+        this.setDeferred();
+        this.log.info('Starting cleaning that was deferred during quiet hours');
+        this.robot.setActivity('play').catch(() => { /* Error already logged */ });
+    }
+
+    // Defer cleaning until the end of the current quiet hours, or cancel it
+    setDeferred(until?: Date): void {
+        this.deferred = until && { deferred: new Date().toISOString(), until: until.toISOString() };
+        this.robot.updateDerivedAndEmit();
+        void this.save();
+    }
+
+    // Temporarily allow cleaning during quiet hours
+    setOverride(override: boolean): void {
+        this.log.info(`Quiet hours ${override ? 'overridden' : 'override cancelled'}`);
+        this.robot.updateStatus({ quietOverride: override });
+        this.robot.updateDerivedAndEmit();
+
+        // Start any deferred cleaning immediately
+        if (override) this.startDeferred();
+    }
+
+    // Check whether an activity can be started now, deferring or rejecting cleaning
+    allowActivity(command: RX9CleaningCommand, isSet: boolean): boolean {
+        // Any other activity cancels deferred cleaning
+        if (command !== 'play') {
+            if (this.deferred) {
+                this.log.info('Deferred cleaning cancelled');
+                this.setDeferred();
+            }
+            return true;
+        }
+
+        // Allow cleaning outside quiet hours, if overridden, or if already cleaning
+        const quietUntil = this.quietUntil;
+        if (!quietUntil || this.robot.status.quietOverride || isSet) return true;
+
+        // Defer or reject cleaning during quiet hours
+        if (this.robot.robotConfig?.quietHoursAction === 'defer') {
+            this.log.warn(`Cleaning deferred until the end of quiet hours at ${formatTime(quietUntil)}`);
+            this.setDeferred(quietUntil);
+            return false;
+        }
+        const err = new AEGRobotQuietHoursError(quietUntil);
+        this.log.warn(err.message);
+        throw err;
+    }
+
+    // Restore any deferred cleaning, unless its quiet hours have already ended
+    async load(): Promise<void> {
+        try {
+            const deferred: unknown = await nodePersist.getItem(this.persistKey);
+            if (deferred === undefined) return;
+            if (!checkers.DeferredCleaning.test(deferred)) throw new Error('Unexpected saved deferred cleaning format');
+            const until = new Date(deferred.until);
+            if (until <= new Date() || !this.findQuietUntil()) {
+                this.log.warn(`Discarding cleaning that was deferred until ${formatTime(until)}`);
+                await nodePersist.removeItem(this.persistKey);
+            } else {
+                this.deferred = deferred;
+                this.log.info(`Restored cleaning deferred until the end of quiet hours at ${formatTime(until)}`);
+            }
+        } catch (err) {
+            logError(this.log, 'Saved deferred cleaning', err);
+        }
+    }
+
+    // Save or remove any deferred cleaning
+    async save(): Promise<void> {
+        try {
+            if (this.deferred) await nodePersist.setItem(this.persistKey, this.deferred);
+            else await nodePersist.removeItem(this.persistKey);
+        } catch (err) {
+            logError(this.log, 'Saving deferred cleaning', err);
+        }
+    }
+}
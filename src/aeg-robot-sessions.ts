@@ -0,0 +1,252 @@
+// Homebridge plugin for AEG RX 9 / Electrolux Pure i9 robot vacuum
+// Copyright © 2026 Alexander Thoukydides
+
+import { Logger } from 'homebridge';
+
+import nodePersist from 'node-persist';
+
+import { AEGRobot } from './aeg-robot.js';
+import { CleaningSession, CleaningSessionFinish, OpenCleaningSession } from './aeg-session-types.js';
+import { RX9Message, RX92PowerMode, RX9RobotStatus } from './aegapi-rx9-types.js';
+import { logError, MS } from './utils.js';
+import { checkers } from './ti/aeg-session-types.js';
+
+// Maximum number of cleaning sessions to retain
+const MAX_SESSIONS = 100;
+
+// Interval between saves of the session in progress while it is unchanged
+const SAVE_INTERVAL_MS = 5 * 60 * MS; // (5 minutes)
+
+// Robot activities that form part of a cleaning session
+const SESSION_ACTIVITIES: RX9RobotStatus[] = [
+    RX9RobotStatus.Cleaning,            RX9RobotStatus.PausedCleaning,
+    RX9RobotStatus.SpotCleaning,        RX9RobotStatus.PausedSpotCleaning,
+    RX9RobotStatus.Return,              RX9RobotStatus.PausedReturn,
+    RX9RobotStatus.ReturnForPitstop,    RX9RobotStatus.PausedReturnForPitstop,
+    RX9RobotStatus.Pitstop
+];
+
+// Robot activities that indicate that a cleaning session is paused
+const PAUSED_ACTIVITIES: RX9RobotStatus[] = [
+    RX9RobotStatus.PausedCleaning,      RX9RobotStatus.PausedSpotCleaning,
+    RX9RobotStatus.PausedReturn,        RX9RobotStatus.PausedReturnForPitstop
+];
+
+// Robot activities that complete a return to the charging dock
+const RETURN_ACTIVITIES: RX9RobotStatus[] = [
+    RX9RobotStatus.Return,              RX9RobotStatus.PausedReturn
+];
+const DOCKED_ACTIVITIES: RX9RobotStatus[] = [
+    RX9RobotStatus.Charging,            RX9RobotStatus.Sleeping
+];
+
+// A cleaning session that is in progress
+interface ActiveSession {
+    start:          number;
+    paused:         number;
+    pausedSince?:   number;
+    pitstops:       number;
+    powerModes:     Set<string>;
+    messages:       string[];
+    activity:       RX9RobotStatus;
+    restored?:      number; // When last seen before the plugin restarted
+}
+
+// Track cleaning sessions performed by a robot
+export class AEGRobotSessions {
+
+    // Logger
+    readonly log: Logger;
+
+    // Names of the keys used for persistent storage of the sessions
+    private readonly persistKey: string;
+    private readonly persistOpenKey: string;
+
+    // Completed cleaning sessions, oldest first
+    private sessions: CleaningSession[] = [];
+
+    // Promise that is resolved when any saved sessions have been restored
+    private readonly loaded: Promise<void>;
+
+    // The cleaning session in progress
+    private current?: ActiveSession;
+
+    // The most recent activity, ignoring any stale status restored at startup
+    private activity?: RX9RobotStatus;
+
+    // When the session in progress was last saved
+    private savedAt = 0;
+
+    // Create a new cleaning session tracker
+    constructor(readonly robot: AEGRobot) {
+        this.log = robot.log;
+        this.persistKey = `sessions:${robot.applianceId}`;
+        this.persistOpenKey = `session:${robot.applianceId}`;
+        this.loaded = this.load();
+
+        // Monitor changes to the robot status
+        robot.on('activity', () => {
+            this.checkActivity();
+        }).on('isStale', () => {
+            this.checkActivity();
+        }).on('rawPower', () => {
+            this.addPowerMode();
+        }).on('rawEco', () => {
+            this.addPowerMode();
+        }).on('message', (message: RX9Message) => {
+            this.current?.messages.push(message.text);
+        }).on('appliance', () => {
+            if (this.current && this.current.restored === undefined
+                && SAVE_INTERVAL_MS <= Date.now() - this.savedAt) void this.saveOpen();
+        });
+    }
+
+    // Retrieve the completed cleaning sessions, oldest first
+    async getSessions(): Promise<CleaningSession[]> {
+        await this.loaded;
+        return [...this.sessions];
+    }
+
+    // Check whether the activity has changed
+    checkActivity(): void {
+        const { activity, isStale } = this.robot.status;
+        if (isStale || activity === undefined || activity === this.activity) return;
+        this.activity = activity;
+        void this.updateActivity(activity);
+    }
+
+    // Start, update, or end a cleaning session when the activity changes
+    async updateActivity(activity: RX9RobotStatus): Promise<void> {
+        // Any session that was open when the plugin stopped must be restored first
+        await this.loaded;
+        let now = Date.now();
+
+        // A restored session that has since ended finished when it was last seen
+        const restored = this.current?.restored;
+        if (restored !== undefined && !SESSION_ACTIVITIES.includes(activity)) now = restored;
+        if (this.current) delete this.current.restored;
+
+        // Accumulate any time spent paused
+        const session = this.current;
+        if (session?.pausedSince !== undefined) {
+            session.paused += now - session.pausedSince;
+            delete session.pausedSince;
+        }
+
+        if (SESSION_ACTIVITIES.includes(activity)) {
+            // Start a new session if necessary, and update it
+            const current = session ?? this.startSession(now, activity);
+            if (PAUSED_ACTIVITIES.includes(activity)) current.pausedSince = now;
+            if (activity === RX9RobotStatus.Pitstop) ++current.pitstops;
+            current.activity = activity;
+            void this.saveOpen();
+        } else if (session) {
+            // End the current session
+            let finish: CleaningSessionFinish = 'Stopped';
+            if (activity === RX9RobotStatus.Error) finish = 'Error';
+            else if (RETURN_ACTIVITIES.includes(session.activity)
+                     && DOCKED_ACTIVITIES.includes(activity)) finish = 'Returned Home';
+            this.endSession(now, finish);
+        }
+    }
+
+    // Start a new cleaning session
+    startSession(now: number, activity: RX9RobotStatus): ActiveSession {
+        this.current = {
+            start:      now,
+            paused:     0,
+            pitstops:   0,
+            powerModes: new Set(),
+            messages:   [],
+            activity
+        };
+        this.addPowerMode();
+        return this.current;
+    }
+
+    // Record the power mode being used by the current session
+    addPowerMode(): void {
+        const { rawPower, rawEco } = this.robot.status;
+        const powerMode = rawPower !== undefined ? RX92PowerMode[rawPower].toUpperCase()
+                        : (rawEco !== undefined ? (rawEco ? 'ECO' : 'NORMAL') : undefined);
+        if (powerMode !== undefined) this.current?.powerModes.add(powerMode);
+    }
+
+    // End the current cleaning session
+    endSession(now: number, finish: CleaningSessionFinish): void {
+        if (!this.current) return;
+        const { start, paused, pitstops, powerModes, messages } = this.current;
+        delete this.current;
+        const session: CleaningSession = {
+            start:      new Date(start).toISOString(),
+            end:        new Date(now).toISOString(),
+            duration:   now - start,
+            paused,
+            pitstops,
+            finish,
+            powerModes: [...powerModes],
+            messages
+        };
+        this.robot.emit('session', session);
+        void this.save(session);
+        void this.saveOpen();
+    }
+
+    // Restore any saved cleaning sessions
+    async load(): Promise<void> {
+        try {
+            const sessions: unknown = await nodePersist.getItem(this.persistKey);
+            if (sessions !== undefined) {
+                if (!checkers.CleaningSessionHistory.test(sessions)) throw new Error('Unexpected saved cleaning session format');
+                this.sessions = [...sessions, ...this.sessions];
+            }
+        } catch (err) {
+            logError(this.log, 'Saved cleaning sessions', err);
+        }
+
+        // Restore any session that was in progress when the plugin stopped
+        try {
+            const open: unknown = await nodePersist.getItem(this.persistOpenKey);
+            if (open === undefined) return;
+            if (!checkers.OpenCleaningSession.test(open)) throw new Error('Unexpected saved open cleaning session format');
+            const { updated, powerModes, ...session } = open;
+            this.current = { ...session, powerModes: new Set(powerModes), restored: updated };
+            this.log.debug(`Restored cleaning session started at ${new Date(open.start).toLocaleString()}`);
+        } catch (err) {
+            logError(this.log, 'Saved open cleaning session', err);
+        }
+    }
+
+    // Add a completed session and save the history
+    async save(session: CleaningSession): Promise<void> {
+        try {
+            await this.loaded;
+            this.sessions.push(session);
+            this.sessions.splice(0, this.sessions.length - MAX_SESSIONS);
+            await nodePersist.setItem(this.persistKey, this.sessions);
+        } catch (err) {
+            logError(this.log, 'Saving cleaning sessions', err);
+        }
+    }
+
+    // Save or remove the session in progress
+    async saveOpen(): Promise<void> {
+        try {
+            this.savedAt = Date.now();
+            const current = this.current;
+            if (current) {
+                const { restored, powerModes, ...session } = current;
+                const open: OpenCleaningSession = {
+                    ...session,
+                    updated:    restored ?? Date.now(),
+                    powerModes: [...powerModes]
+                };
+                await nodePersist.setItem(this.persistOpenKey, open);
+            } else {
+                await nodePersist.removeItem(this.persistOpenKey);
+            }
+        } catch (err) {
+            logError(this.log, 'Saving open cleaning session', err);
+        }
+    }
+}
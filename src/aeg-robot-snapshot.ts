@@ -0,0 +1,84 @@
+// Homebridge plugin for AEG RX 9 / Electrolux Pure i9 robot vacuum
+// Copyright © 2026 Alexander Thoukydides
+
+import { Logger } from 'homebridge';
+
+import nodePersist from 'node-persist';
+
+import { AEGRobot } from './aeg-robot.js';
+import { StatusSnapshot } from './aeg-status-types.js';
+import { formatMilliseconds, logError } from './utils.js';
+import { checkers } from './ti/aeg-status-types.js';
+
+// Save and restore the last known status of a robot
+export class AEGRobotSnapshot {
+
+    // Logger
+    readonly log: Logger;
+
+    // Name of the key used for persistent storage of the status
+    private readonly persistKey: string;
+
+    // Most recently saved status (excluding its timestamp)
+    private savedStatus = '';
+
+    // Create a new status snapshot manager
+    constructor(readonly robot: AEGRobot) {
+        this.log = robot.log;
+        this.persistKey = `status:${robot.applianceId}`;
+
+        // Save the status whenever fresh data changes it
+        robot.on('appliance', () => { void this.save(); });
+    }
+
+    // Capture the current status, if the static appliance details are known
+    capture(): Omit<StatusSnapshot, 'saved'> | undefined {
+        const { applianceInfo } = this.robot;
+        if (!applianceInfo) return;
+        const {
+            name, hardware, firmware, capabilities, battery, activity, dustbin,
+            rawPower, rawEco, mute, language, availableLanguages, taskIds,
+            enabled, connected
+        } = this.robot.status;
+        return {
+            name, hardware, firmware, capabilities, battery, activity, dustbin,
+            rawPower, rawEco, mute, language, availableLanguages, taskIds,
+            enabled, connected, tasks: this.robot.tasks, applianceInfo
+        };
+    }
+
+    // Restore the last known status, marking it as stale
+    async restore(): Promise<boolean> {
+        try {
+            const snapshot: unknown = await nodePersist.getItem(this.persistKey);
+            if (snapshot === undefined) return false;
+            if (!checkers.StatusSnapshot.test(snapshot)) throw new Error('Unexpected saved status format');
+            const { saved, tasks, applianceInfo, ...status } = snapshot;
+            const age = formatMilliseconds(Date.now() - Date.parse(saved));
+            this.log.info(`Using last known status from ${age} ago until fresh status is received`);
+            this.robot.updateFromApplianceInfo({ applianceInfo });
+            this.robot.tasks = tasks;
+            this.robot.updateStatus({ ...status, isStale: true });
+            this.robot.updateDerivedAndEmit();
+            return true;
+        } catch (err) {
+            logError(this.log, 'Saved status', err);
+            return false;
+        }
+    }
+
+    // Save the current status if it has changed
+    async save(): Promise<void> {
+        try {
+            const status = this.capture();
+            if (!status) return;
+            const json = JSON.stringify(status);
+            if (json === this.savedStatus) return;
+            this.savedStatus = json;
+            const snapshot: StatusSnapshot = { saved: new Date().toISOString(), ...status };
+            await nodePersist.setItem(this.persistKey, snapshot);
+        } catch (err) {
+            logError(this.log, 'Saving status', err);
+        }
+    }
+}
@@ -3,19 +3,52 @@
 
 import { Logger } from 'homebridge';
 import { EventEmitter } from 'events';
+import nodePersist from 'node-persist';
+import { setTimeout } from 'node:timers/promises';
 
 import { AEGAccount } from './aeg-account.js';
-import { AEGRobotCtrlActivity } from './aeg-robot-ctrl.js';
+import { AEGRobotCtrlActivity, AEGRobotCtrlLanguage, AEGRobotCtrlMute, AEGRobotCtrlName,
+         AEGRobotCtrlPower, AEGRobotCtrlTask } from './aeg-robot-ctrl.js';
 import { AEGRobotLog } from './aeg-robot-log.js';
-import { Config } from './config-types.js';
+import { AEGRobotSessions } from './aeg-robot-sessions.js';
+import { AEGRobotConsumables } from './aeg-robot-consumables.js';
+import { AEGRobotSnapshot } from './aeg-robot-snapshot.js';
+import { AEGRobotQueue } from './aeg-robot-queue.js';
+import { AEGRobotQuietHours } from './aeg-robot-quiet.js';
+import { describeMessage, MessageDescription, MessageSeverity,
+         mostSevereMessage } from './aeg-robot-messages.js';
+import { CleaningSession } from './aeg-session-types.js';
+import { SeenMessage } from './aeg-message-types.js';
+import { ConsumableName, ConsumableWear } from './aeg-consumable-types.js';
+import { Config, RobotConfig } from './config-types.js';
 import { Heartbeat } from './heartbeat.js';
-import { formatList, logError, MS } from './utils.js';
+import { formatList, formatMilliseconds, logError, MS } from './utils.js';
 import { PrefixLogger } from './logger.js';
 import { RX9ApplianceInfo, RX9ApplianceState, RX9BatteryStatus,
          RX9Capabilities, RX9CleaningCommand, RX9Dustbin, RX9Message,
-         RX92PowerMode, RX9RobotStatus } from './aegapi-rx9-types.js';
+         RX92PowerMode, RX9RobotStatus, RX92Task, RX92Tasks } from './aegapi-rx9-types.js';
 import { AEGAPIRX9 } from './aegapi-rx9.js';
-import { Appliance } from './aegapi-types.js';
+import { AEGAPIAuthorisationError, AEGAPIError } from './aegapi-error.js';
+import { Appliance, ApplianceInfoDTO } from './aegapi-types.js';
+import { checkers } from './ti/aeg-message-types.js';
+
+// Time to remember messages after they are no longer reported
+const MESSAGE_EXPIRY_MS = 24 * 60 * 60 * MS; // (24 hours)
+
+// Delays between additional polls to confirm that a command has been applied
+const CONFIRM_POLL_DELAYS_MS = [2, 3, 5, 10, 20].map(seconds => seconds * MS); // (40 seconds total)
+
+// Time without progress before the robot is considered to need attention
+const PAUSED_TIMEOUT_MS = 30 * 60 * MS; // (30 minutes)
+const RETURN_TIMEOUT_MS = 15 * 60 * MS; // (15 minutes)
+
+// The robot is not connected to the Electrolux Group cloud servers
+export class AEGRobotDisconnectedError extends Error {
+    constructor() {
+        super('Robot is not connected to the cloud servers');
+        this.name = 'Robot Disconnected Error';
+    }
+}
 
 // Simplified robot activities
 export enum SimpleActivity {
@@ -29,6 +62,7 @@ export enum SimpleActivity {
 // Dynamic information about a robot
 export interface DynamicStatus {
     // Raw values provided by the Electrolux Group API
+    name:               string;
     hardware:           string;
     firmware:           string;
     capabilities:       RX9Capabilities[];
@@ -37,10 +71,23 @@ export interface DynamicStatus {
     dustbin?:           RX9Dustbin;
     rawPower?:          RX92PowerMode;
     rawEco?:            boolean;
+    mute?:              boolean;
+    language?:          string;
+    availableLanguages: string[];
+    taskIds:            string[];
     enabled:            boolean;
     connected:          boolean;
+    // Status restored from a snapshot that has not yet been refreshed
+    isStale?:           boolean;
+    // Quiet hours during which cleaning should not be started
+    isQuietHours?:      boolean;
+    quietOverride?:     boolean;
+    isCleanDeferred?:   boolean;
+    // Electrolux Group API calls remaining in the daily quota
+    quotaRemaining?:    number;
     // API errors
     isServerError?:     unknown;
+    isRateLimited?:     boolean;
     isRobotError?:      unknown;
     // Derived values
     simpleActivity?:    SimpleActivity;
@@ -52,14 +99,25 @@ export interface DynamicStatus {
     isBusy?:            boolean;
     isFault?:           boolean;
     isError?:           unknown;
+    problem?:           MessageDescription;
+    isStuck?:           boolean;
+    needsAttention?:    boolean;
     power?:             RX92PowerMode;
     eco?:               boolean;
+    enabledTaskIds?:    string[];
+    filterLife?:        number;     // Percentage of lifetime remaining
+    mainBrushLife?:     number;
+    sideBrushesLife?:   number;
 }
 export type StatusEvent = keyof DynamicStatus;
 
+// Robot states with different polling intervals
+type PollState = 'active' | 'idle' | 'disconnected';
+
 // Other event types
 interface DataEventType {
     message:        RX9Message;
+    session:        CleaningSession;
 }
 type DataEvent = keyof DataEventType;
 type VoidEvent = 'info' | 'appliance' | 'preUpdate';
@@ -76,13 +134,18 @@ export class AEGRobot extends EventEmitter {
     readonly config: Config;
 
     // A custom logger
-    readonly log: Logger;
+    readonly log: PrefixLogger;
 
     // Electrolux Group API for an AEG RX9.1 or RX9.2 robot vacuum cleaner
     readonly api: AEGAPIRX9;
 
     // Control the robot
-    readonly setActivity: (command: RX9CleaningCommand) => void;
+    readonly setActivity: (command: RX9CleaningCommand) => Promise<void>;
+    readonly setPower:    (power: RX92PowerMode) => Promise<void>;
+    readonly setMute:     (mute: boolean) => Promise<void>;
+    readonly setLanguage: (language: string) => Promise<void>;
+    readonly setName:     (name: string) => Promise<void>;
+    private readonly taskCtrls = new Map<string, (enabled: boolean) => Promise<void>>();
 
     // Static information about the robot (mostly initialised asynchronously)
     readonly applianceId:   string; // Product ID
@@ -90,25 +153,69 @@ export class AEGRobot extends EventEmitter {
     sn          = '';               // Serial Number
     brand       = '';
     model       = '';
-    name        = '';
+    applianceInfo?: ApplianceInfoDTO;
+    private readonly applianceType: string;
+
+    // Settings specific to this robot (matched by its original name)
+    readonly robotConfig?: RobotConfig;
+
+    // Scheduled tasks (RX9.2 only)
+    tasks: RX92Tasks = {};
 
     // Dynamic information about the robot
     readonly status: DynamicStatus = {
+        name:           '',
         hardware:       '',
         firmware:       '',
         capabilities:   [],
+        availableLanguages: [],
+        taskIds:        [],
         enabled:        false,
         connected:      false
     };
 
     private emittedStatus: Partial<DynamicStatus> = {};
 
+    // Error reported while the robot is disconnected from the cloud servers
+    private readonly disconnectedError = new AEGRobotDisconnectedError();
+    private hasState = false;
+
+    // When the robot activity last changed
+    private activitySince = Date.now();
+
+    // Cleaning sessions performed by the robot
+    private readonly sessions: AEGRobotSessions;
+
+    // Wear of the robot's consumable parts
+    private readonly consumables: AEGRobotConsumables;
+
+    // Last known status, restored at startup
+    private readonly snapshot: AEGRobotSnapshot;
+
+    // Cleaning command held while the robot is unreachable
+    private readonly queue: AEGRobotQueue;
+
+    // Restrictions on when the robot may start cleaning
+    private readonly quietHours: AEGRobotQuietHours;
+
     // Messages about the robot
-    private readonly emittedMessages = new Set<number>();
+    private messages: RX9Message[] = [];
+
+    // Messages that have already been emitted (persisted across restarts)
+    private seenMessages: SeenMessage[] = [];
+    private readonly seenMessagesKey: string;
+    private readonly seenMessagesLoaded: Promise<void>;
 
     // Promise that is resolved by successful initialisation
     private readonly readyPromise: Promise<void>;
 
+    // Periodic polling of the appliance state
+    private pollHeartbeat?: Heartbeat;
+    private minPollInterval = 0;
+
+    // Number of control requests in progress
+    pendingRequests = 0;
+
     // Create a new robot manager
     constructor(
         log:                Logger,
@@ -125,14 +232,49 @@ export class AEGRobot extends EventEmitter {
 
         // Initialise static information that is already known
         this.applianceId    = appliance.applianceId;
-        this.model          = appliance.applianceType;
-        this.name           = appliance.applianceName;
+        this.applianceType  = this.model = appliance.applianceType;
+        this.status.name    = appliance.applianceName;
+
+        // Match the robot's settings by its name when first discovered
+        this.robotConfig = this.config.robots.find(robot => robot.name === appliance.applianceName);
+
+        // Restore the record of messages that have already been emitted
+        this.seenMessagesKey    = `messages:${appliance.applianceId}`;
+        this.seenMessagesLoaded = this.loadSeenMessages();
+
+        // Keep the log prefix in step with any change of name
+        this.on('name', (name: string) => { this.log.prefix = name; });
+
+        // Track whether Electrolux Group API requests are being rate limited
+        account.api.ua.onThrottle(until => {
+            this.status.isRateLimited = until !== undefined;
+            this.updateDerivedAndEmit();
+        });
+
+        // Track account-level problems accessing the Electrolux Group API
+        this.status.isServerError = account.serverError;
+        account.onHealth(err => {
+            this.status.isServerError = err;
+            this.updateDerivedAndEmit();
+        });
 
         // Allow the robot to be controlled
         this.setActivity    = new AEGRobotCtrlActivity(this).makeSetter();
+        this.setPower       = new AEGRobotCtrlPower(this).makeSetter();
+        this.setMute        = new AEGRobotCtrlMute(this).makeSetter();
+        this.setLanguage    = new AEGRobotCtrlLanguage(this).makeSetter();
+        this.setName        = new AEGRobotCtrlName(this).makeSetter();
+
+        // Enforce any configured voice prompt language
+        this.on('appliance', () => { this.applyConfiguredLanguage(); });
 
-        // Start logging information about this robot
+        // Start logging information about this robot, its cleaning sessions, and consumables
         new AEGRobotLog(this);
+        this.sessions = new AEGRobotSessions(this);
+        this.consumables = new AEGRobotConsumables(this);
+        this.snapshot = new AEGRobotSnapshot(this);
+        this.queue = new AEGRobotQueue(this);
+        this.quietHours = new AEGRobotQuietHours(this);
 
         // Start asynchronous initialisation
         this.readyPromise = this.init();
@@ -144,8 +286,17 @@ export class AEGRobot extends EventEmitter {
         return this;
     }
 
-    // Read the full static appliance details to complete initialisation
+    // Restore or read the static appliance details to complete initialisation
     async init(): Promise<void> {
+        // The last known status is sufficient to create the accessory
+        await this.quietHours.start();
+        const restored = await this.snapshot.restore();
+        const initialised = this.initFromAPI();
+        if (!restored) await initialised;
+    }
+
+    // Read the full static appliance details and start polling its state
+    async initFromAPI(): Promise<void> {
         try {
             // Read the full appliance details
             const info = await this.api.getApplianceInfo();
@@ -157,14 +308,164 @@ export class AEGRobot extends EventEmitter {
             await pollState();
 
             // Start polling the appliance state periodically
-            new Heartbeat(this.log, 'Appliance state',
-                          this.config.pollIntervals.statusSeconds * MS,
-                          pollState, (err) => { this.heartbeat(err); });
+            this.pollHeartbeat = new Heartbeat(this.log, 'Appliance state', this.pollInterval,
+                                               pollState, (err) => { this.heartbeat(err); });
         } catch (err) {
             logError(this.log, 'Appliance info', err);
         }
     }
 
+    // Change the minimum interval between polling the appliance state
+    setPollInterval(interval: number): void {
+        this.minPollInterval = interval;
+        this.updatePollInterval();
+    }
+
+    // Whether the daily quota can afford additional polls to confirm a command
+    get canConfirmQuickly(): boolean {
+        const { statusSeconds } = this.config.pollIntervals;
+        return this.minPollInterval <= statusSeconds * MS
+            && CONFIRM_POLL_DELAYS_MS.length < this.account.api.ua.quota.remaining;
+    }
+
+    // Poll the appliance state in quick succession to confirm a command
+    async pollForConfirmation(signal: AbortSignal): Promise<void> {
+        try {
+            for (const delay of CONFIRM_POLL_DELAYS_MS) {
+                await setTimeout(delay, undefined, { signal });
+                if (!this.canConfirmQuickly) return;
+                this.log.debug('Polling appliance state to confirm command');
+                await this.pollApplianceState();
+            }
+        } catch (err) {
+            if (!signal.aborted) logError(this.log, 'Confirming command', err);
+        }
+    }
+
+    // Has the appliance state been read (rather than only restored from a snapshot)
+    get isStateKnown(): boolean {
+        return this.hasState;
+    }
+
+    // Is the robot known to be disconnected from the cloud servers
+    get isDisconnected(): boolean {
+        return this.hasState && !this.status.connected;
+    }
+
+    // Is the robot unable to receive commands (disconnected or cloud servers unavailable)
+    get isUnreachable(): boolean {
+        const err = this.status.isServerError;
+        return this.isDisconnected
+            || (err instanceof AEGAPIError && !(err instanceof AEGAPIAuthorisationError));
+    }
+
+    // Robot state used to select the polling interval
+    get pollState(): PollState {
+        const { connected, isDocked, simpleActivity } = this.status;
+        if (!this.hasState || this.pendingRequests) return 'active';
+        if (!connected) return 'disconnected';
+        if (isDocked && simpleActivity === SimpleActivity.Other) return 'idle';
+        return 'active';
+    }
+
+    // Interval between polling the appliance state appropriate to its state
+    get pollInterval(): number {
+        const { statusSeconds, idleSeconds, disconnectedSeconds } = this.config.pollIntervals;
+        const seconds: Record<PollState, number> = {
+            active:         statusSeconds,
+            idle:           idleSeconds,
+            disconnected:   disconnectedSeconds
+        };
+        return Math.max(seconds[this.pollState] * MS, statusSeconds * MS, this.minPollInterval);
+    }
+
+    // Update the polling interval if the robot's state has changed
+    updatePollInterval(): void {
+        if (!this.pollHeartbeat) return;
+        const interval = this.pollInterval;
+        if (interval === this.pollHeartbeat.interval) return;
+        this.log.debug(`Polling appliance state every ${formatMilliseconds(interval)} (${this.pollState})`);
+        this.pollHeartbeat.interval = interval;
+    }
+
+    // The robot's name, as set in the AEG app
+    get name(): string {
+        return this.status.name;
+    }
+
+    // Retrieve recent completed cleaning sessions, oldest first
+    async getCleaningSessions(): Promise<CleaningSession[]> {
+        return this.sessions.getSessions();
+    }
+
+    // Retrieve the wear of a consumable part since it was last replaced
+    getConsumableWear(name: ConsumableName): ConsumableWear {
+        return this.consumables.getWear(name);
+    }
+
+    // Record replacement of a consumable part
+    resetConsumable(name: ConsumableName): void {
+        void this.consumables.reset(name);
+    }
+
+    // Queue a cleaning command until the robot is reachable, if enabled
+    queueActivity(command: RX9CleaningCommand): boolean {
+        return this.queue.enqueue(command);
+    }
+
+    // Check whether an activity can be started now, deferring or rejecting cleaning during quiet hours
+    allowActivity(command: RX9CleaningCommand, isSet: boolean): boolean {
+        return this.quietHours.allowActivity(command, isSet);
+    }
+
+    // Temporarily allow cleaning during quiet hours
+    setQuietHoursOverride(override: boolean): void {
+        this.quietHours.setOverride(override);
+    }
+
+    // Select the configured language if the robot is using a different one
+    applyConfiguredLanguage(): void {
+        const language = this.robotConfig?.language;
+        const { language: current, availableLanguages } = this.status;
+        if (language === undefined || current === undefined || language === current) return;
+        if (!availableLanguages.includes(language)) return;
+        this.setLanguage(language).catch(() => { /* Error already logged */ });
+    }
+
+    // Read the current scheduled tasks (RX9.2 only)
+    async listTasks(): Promise<RX92Tasks> {
+        return this.api.getTasks();
+    }
+
+    // Enable or disable a scheduled task
+    setTaskEnabled(id: string, enabled: boolean): Promise<void> {
+        let setter = this.taskCtrls.get(id);
+        if (!setter) {
+            setter = new AEGRobotCtrlTask(this, id).makeSetter();
+            this.taskCtrls.set(id, setter);
+        }
+        return setter(enabled);
+    }
+
+    // Create a new scheduled task, returning its identifier
+    async createTask(task: RX92Task): Promise<string> {
+        const id = await this.api.createTask(task);
+        this.log.info(`Created scheduled task ${id}`);
+        return id;
+    }
+
+    // Replace an existing scheduled task
+    async editTask(id: string, task: RX92Task): Promise<void> {
+        await this.api.editTask(id, task);
+        this.log.info(`Edited scheduled task ${id}`);
+    }
+
+    // Delete a scheduled task
+    async deleteTask(id: string): Promise<void> {
+        await this.api.deleteTask(id);
+        this.log.info(`Deleted scheduled task ${id}`);
+    }
+
     // Describe this robot
     toString(): string {
         const bits = [
@@ -177,12 +478,13 @@ export class AEGRobot extends EventEmitter {
     }
 
     // Set static robot state
-    updateFromApplianceInfo(info: RX9ApplianceInfo): void {
+    updateFromApplianceInfo(info: Pick<RX9ApplianceInfo, 'applianceInfo'>): void {
         const { serialNumber, pnc, brand, model } = info.applianceInfo;
+        this.applianceInfo = info.applianceInfo;
         this.pnc    = pnc;
         this.sn     = serialNumber;
         this.brand  = brand;
-        this.model += ` (${model})`;
+        this.model  = `${this.applianceType} (${model})`;
         this.emit('info');
     }
 
@@ -190,7 +492,11 @@ export class AEGRobot extends EventEmitter {
     updateFromApplianceState(state: RX9ApplianceState): void {
         // Extract the relevant information
         const { reported } = state.properties;
+        this.hasState = true;
+        if (reported.robotStatus !== this.status.activity || this.status.isStale) this.activitySince = Date.now();
+        this.tasks = ('powerMode' in reported ? reported.tasks : undefined) ?? {};
         this.updateStatus({
+            name:           reported.applianceName,
             enabled:        state.status === 'enabled',
             connected:      state.connectionState === 'Connected',
             capabilities:   Object.keys(reported.capabilities) as RX9Capabilities[],
@@ -200,11 +506,18 @@ export class AEGRobot extends EventEmitter {
             activity:       reported.robotStatus,
             dustbin:        reported.dustbinStatus,
             rawPower:       'powerMode' in reported ? reported.powerMode : undefined,
-            rawEco:         'ecoMode'   in reported ? reported.ecoMode   : undefined
+            rawEco:         'ecoMode'   in reported ? reported.ecoMode   : undefined,
+            mute:           reported.mute,
+            language:       reported.language,
+            availableLanguages: reported.availableLanguages,
+            taskIds:        Object.keys(this.tasks).sort((a, b) => a.localeCompare(b, undefined, { numeric: true })),
+            quotaRemaining: this.account.api.ua.quota.remaining,
+            isStale:        false
         });
 
         // Extract any new messages
-        this.emitMessages(reported.messageList.messages);
+        this.messages = reported.messageList.messages;
+        void this.emitMessages(this.messages);
 
         // Generate derived state
         this.updateDerivedAndEmit();
@@ -228,6 +541,7 @@ export class AEGRobot extends EventEmitter {
         this.updateDerived();
         this.emit('preUpdate');
         this.emitChangeEvents();
+        this.updatePollInterval();
     }
 
     // Update derived values
@@ -257,10 +571,25 @@ export class AEGRobot extends EventEmitter {
         const isBusy = [SimpleActivity.Clean, SimpleActivity.Pitstop].includes(activity);
 
         // Combine account and appliance errors
-        const isError = this.status.isRobotError;
+        const isError = this.status.isServerError ?? this.status.isRobotError
+                     ?? (this.isDisconnected ? this.disconnectedError : undefined);
+
+        // The most severe of the current messages
+        const problem = mostSevereMessage(this.messages);
+
+        // Check whether the robot is stuck or otherwise unable to make progress
+        const isStuck = this.messages.some(message => describeMessage(message).category === 'Stuck');
+        const activityDuration = Date.now() - this.activitySince;
+        const isStalled = activity === SimpleActivity.Pause
+                          ? PAUSED_TIMEOUT_MS <= activityDuration
+                          : (activity === SimpleActivity.Return && RETURN_TIMEOUT_MS <= activityDuration);
+        const needsAttention = isStuck || isStalled
+                            || problem?.severity === MessageSeverity.Error
+                            || this.status.activity === RX9RobotStatus.Error;
 
         // Any identified problem is treated as a fault
         const isFault = isError !== undefined
+                     || problem?.severity === MessageSeverity.Error
                      || !this.status.enabled
                      || !this.status.connected
                      || this.status.activity === RX9RobotStatus.Error
@@ -280,8 +609,12 @@ export class AEGRobot extends EventEmitter {
             isBusy,
             isError,
             isFault,
+            problem,
+            isStuck:        !this.status.isStale && isStuck,
+            needsAttention: !this.status.isStale && needsAttention,
             power:          isBusy ? this.status.rawPower : undefined,
-            eco:            isBusy ? this.status.rawEco   : undefined
+            eco:            isBusy ? this.status.rawEco   : undefined,
+            enabledTaskIds: this.status.taskIds.filter(id => this.tasks[id]?.enabled)
         });
     }
 
@@ -327,18 +660,50 @@ export class AEGRobot extends EventEmitter {
     }
 
     // Emit events for any new messages
-    emitMessages(messages: RX9Message[] = []): void {
-        // If there are no current messages then just flush the cache
-        if (!messages.length) { this.emittedMessages.clear(); return; }
-
-        // Emit events for any new messages
-        messages.forEach(message => {
-            const { id } = message;
-            if (!(this.emittedMessages.has(id))) {
-                this.emittedMessages.add(id);
-                this.emit('message', message);
-            }
-        });
+    async emitMessages(messages: RX9Message[] = []): Promise<void> {
+        await this.seenMessagesLoaded;
+        const now = Date.now();
+        const isSame = (a: SeenMessage | RX9Message, b: SeenMessage | RX9Message): boolean =>
+            a.id === b.id && a.timestamp === b.timestamp;
+
+        // Identify messages that have not been seen before
+        const newMessages = messages.filter(message =>
+            !this.seenMessages.some(seen => isSame(seen, message)));
+
+        // Update the record of seen messages, discarding any that have expired
+        const oldSeen = this.seenMessages;
+        this.seenMessages = [
+            ...messages.map(({ id, timestamp }) => ({ id, timestamp, seen: now })),
+            ...oldSeen.filter(seen => !messages.some(message => isSame(seen, message))
+                                      && now < seen.seen + MESSAGE_EXPIRY_MS)
+        ];
+
+        // Emit events for the new messages, and save the updated record
+        newMessages.forEach(message => this.emit('message', message));
+        if (newMessages.length || this.seenMessages.length !== oldSeen.length) {
+            await this.saveSeenMessages();
+        }
+    }
+
+    // Restore the record of messages that have already been emitted
+    async loadSeenMessages(): Promise<void> {
+        try {
+            const seenMessages: unknown = await nodePersist.getItem(this.seenMessagesKey);
+            if (seenMessages === undefined) return;
+            if (!checkers.SeenMessages.test(seenMessages)) throw new Error('Unexpected saved messages format');
+            this.seenMessages = seenMessages;
+        } catch (err) {
+            logError(this.log, 'Saved messages', err);
+        }
+    }
+
+    // Save the record of messages that have already been emitted
+    async saveSeenMessages(): Promise<void> {
+        try {
+            await nodePersist.setItem(this.seenMessagesKey, this.seenMessages);
+        } catch (err) {
+            logError(this.log, 'Saving messages', err);
+        }
     }
 
     // Install a handler for a robot status event
@@ -0,0 +1,34 @@
+// Homebridge plugin for AEG RX 9 / Electrolux Pure i9 robot vacuum
+// Copyright © 2026 Alexander Thoukydides
+
+import { RX9RobotStatus } from './aegapi-rx9-types.js';
+
+// How a cleaning session finished
+export type CleaningSessionFinish = 'Returned Home' | 'Error' | 'Stopped';
+
+// A single cleaning session
+export interface CleaningSession {
+    start:              string;     // ISO 8601 timestamp
+    end:                string;     // ISO 8601 timestamp
+    duration:           number;     // Milliseconds, including time paused
+    paused:             number;     // Milliseconds
+    pitstops:           number;     // Times charged before resuming cleaning
+    finish:             CleaningSessionFinish;
+    powerModes:         string[];   // e.g. 'SMART' (RX9.2) or 'ECO' (RX9.1)
+    messages:           string[];
+}
+
+// Persistent record of recent cleaning sessions, oldest first
+export type CleaningSessionHistory = CleaningSession[];
+
+// Persistent record of a cleaning session that is in progress
+export interface OpenCleaningSession {
+    start:              number;     // Milliseconds since the epoch
+    updated:            number;     // Milliseconds since the epoch
+    paused:             number;     // Milliseconds
+    pausedSince?:       number;     // Milliseconds since the epoch
+    pitstops:           number;
+    powerModes:         string[];
+    messages:           string[];
+    activity:           RX9RobotStatus;
+}
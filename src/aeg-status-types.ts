@@ -0,0 +1,28 @@
+// Homebridge plugin for AEG RX 9 / Electrolux Pure i9 robot vacuum
+// Copyright © 2026 Alexander Thoukydides
+
+import { ApplianceInfoDTO } from './aegapi-types.js';
+import { RX9BatteryStatus, RX9Capabilities, RX9Dustbin, RX92PowerMode,
+         RX9RobotStatus, RX92Tasks } from './aegapi-rx9-types.js';
+
+// Persistent snapshot of the last known robot status
+export interface StatusSnapshot {
+    saved:              string;     // ISO 8601 timestamp
+    name:               string;
+    hardware:           string;
+    firmware:           string;
+    capabilities:       RX9Capabilities[];
+    battery?:           RX9BatteryStatus;
+    activity?:          RX9RobotStatus;
+    dustbin?:           RX9Dustbin;
+    rawPower?:          RX92PowerMode;
+    rawEco?:            boolean;
+    mute?:              boolean;
+    language?:          string;
+    availableLanguages: string[];
+    taskIds:            string[];
+    enabled:            boolean;
+    connected:          boolean;
+    tasks:              RX92Tasks;
+    applianceInfo:      ApplianceInfoDTO;
+}
@@ -0,0 +1,100 @@
+// Homebridge plugin for AEG RX 9 / Electrolux Pure i9 robot vacuum
+// Copyright © 2026 Alexander Thoukydides
+
+import { Logger } from 'homebridge';
+
+import { AEGAPICircuitOpenError, AEGAPIError } from './aegapi-error.js';
+import { Request } from './aegapi-ua.js';
+import { formatMilliseconds, MS, plural } from './utils.js';
+
+// Number of consecutive failures before suspending requests
+const FAILURE_THRESHOLD = 5;
+
+// Delay before probing whether the servers are available again
+const PROBE_DELAY = {
+    min:      30 * MS, // 30 seconds
+    max:  5 * 60 * MS, // 5 minutes
+    factor:       2.0
+};
+
+// Listener for changes to the circuit breaker state
+export type CircuitListener = (err?: AEGAPIError) => void;
+
+// Suspend requests during sustained Electrolux Group API outages
+export class AEGAPICircuitBreaker {
+
+    // Number of consecutive failures, and the most recent
+    private failures = 0;
+    private lastError?: AEGAPIError;
+
+    // Time when the next probe request is allowed (undefined if closed)
+    private probeAt?: number;
+    private probeDelay = PROBE_DELAY.min;
+    private probing = false;
+
+    // Listeners for changes to the circuit breaker state
+    private readonly listeners = new Set<CircuitListener>();
+
+    // Create a new circuit breaker
+    constructor(readonly log: Logger) {}
+
+    // Are requests currently suspended
+    get isOpen(): boolean {
+        return this.probeAt !== undefined;
+    }
+
+    // Check whether a request can be issued, allowing a single probe when due
+    admit(request: Request): void {
+        if (this.probeAt === undefined) return;
+        if (!this.probing && this.probeAt <= Date.now()) {
+            this.log.debug('Probing whether Electrolux Group API is available');
+            this.probing = true;
+            return;
+        }
+        throw new AEGAPICircuitOpenError(request, { cause: this.lastError });
+    }
+
+    // Record the outcome of a request
+    record(request: Request, err?: unknown): void {
+        if (err instanceof AEGAPICircuitOpenError) return;
+        this.probing = false;
+        if (request.signal?.aborted) return;
+        const unavailable = err instanceof AEGAPIError
+                            && (err.response === undefined || 500 <= err.response.statusCode);
+        if (unavailable) this.failure(err);
+        else this.success();
+    }
+
+    // A request failed due to a network error or server failure
+    failure(err: AEGAPIError): void {
+        ++this.failures;
+        this.lastError = err;
+        if (this.probeAt !== undefined) {
+            // Probe failed, so wait longer before trying again
+            this.probeDelay = Math.min(this.probeDelay * PROBE_DELAY.factor, PROBE_DELAY.max);
+            this.probeAt = Date.now() + this.probeDelay;
+        } else if (FAILURE_THRESHOLD <= this.failures) {
+            // Too many consecutive failures, so suspend requests
+            this.probeDelay = PROBE_DELAY.min;
+            this.probeAt = Date.now() + this.probeDelay;
+            this.log.warn(`Electrolux Group API appears to be unavailable (${plural(this.failures, 'consecutive failure')}); `
+                        + `suspending requests, retrying after ${formatMilliseconds(this.probeDelay)}`);
+            this.listeners.forEach(listener => { listener(err); });
+        }
+    }
+
+    // A request reached the servers successfully
+    success(): void {
+        this.failures = 0;
+        if (this.probeAt === undefined) return;
+        this.probeAt = undefined;
+        this.lastError = undefined;
+        this.log.info('Electrolux Group API is available again; resuming requests');
+        this.listeners.forEach(listener => { listener(); });
+    }
+
+    // Register a listener for changes to the circuit breaker state
+    onChange(listener: CircuitListener): void {
+        this.listeners.add(listener);
+    }
+}
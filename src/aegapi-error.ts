@@ -5,12 +5,18 @@ import { STATUS_CODES } from 'http';
 import { IErrorDetail } from 'ts-interface-checker';
 
 import { Request, Response } from './aegapi-ua.js';
-import { assertIsDefined } from './utils.js';
+import { assertIsDefined, MS } from './utils.js';
 import { checkers } from './ti/aegapi-types.js';
 
 // Options that can be passed to an error constructor
 interface Options { cause?: unknown }
 
+// Delay before retrying a rate limited request if the response does not specify
+const DEFAULT_RETRY_AFTER_MS = 60 * 1000; // (1 minute)
+
+// Rate limit reset values above this are epoch times rather than durations
+const EPOCH_THRESHOLD = 1e9; // (seconds, approximately 2001-09-09)
+
 // Base for reporting all Electrolux Group API errors
 export class AEGAPIError extends Error {
 
@@ -45,6 +51,19 @@ export class AEGAPIAuthorisationError extends AEGAPIError {
     }
 }
 
+// API requests suspended because the servers appear to be unavailable
+export class AEGAPICircuitOpenError extends AEGAPIError {
+
+    constructor(
+        request:            Request,
+        options?:           Options
+    ) {
+        super(request, undefined, 'Electrolux Group API unavailable (requests suspended)', options);
+        Error.captureStackTrace(this, AEGAPICircuitOpenError);
+        this.name = 'Electrolux Group API Circuit Open Error';
+    }
+}
+
 // API returned a non-success status code
 export class AEGAPIStatusCodeError extends AEGAPIError {
 
@@ -84,6 +103,48 @@ export class AEGAPIStatusCodeError extends AEGAPIError {
     }
 }
 
+// API returned a 429 Too Many Requests status code
+export class AEGAPIRateLimitError extends AEGAPIStatusCodeError {
+
+    // Time until the rate limit window reopens
+    readonly retryAfter: number; // milliseconds
+
+    constructor(
+        request:            Request,
+        response:           Response,
+        text:               string,
+        options?:           Options
+    ) {
+        super(request, response, text, options);
+        Error.captureStackTrace(this, AEGAPIRateLimitError);
+        this.name = 'Electrolux Group API Rate Limit Error';
+        this.retryAfter = AEGAPIRateLimitError.getRetryAfter(response.headers) ?? DEFAULT_RETRY_AFTER_MS;
+    }
+
+    // Attempt to extract the delay before retrying from the response headers
+    static getRetryAfter(headers: Response['headers']): number | undefined {
+        const header = (name: string): string | undefined => {
+            const value = headers[name];
+            return Array.isArray(value) ? value[0] : value;
+        };
+
+        // Retry-After is either a number of seconds or an HTTP date
+        const retryAfter = header('retry-after');
+        if (retryAfter !== undefined) {
+            const seconds = Number(retryAfter);
+            if (retryAfter.trim() !== '' && Number.isFinite(seconds)) return Math.max(seconds * MS, 0);
+            const date = Date.parse(retryAfter);
+            if (!isNaN(date)) return Math.max(date - Date.now(), 0);
+        }
+
+        // Rate limit reset is either a number of seconds or an epoch time
+        const reset = Number(header('ratelimit-reset') ?? header('x-ratelimit-reset'));
+        if (Number.isFinite(reset) && 0 <= reset) {
+            return Math.max(reset < EPOCH_THRESHOLD ? reset * MS : reset * MS - Date.now(), 0);
+        }
+    }
+}
+
 // API returned a response that failed checker validation
 export class AEGAPIValidationError extends AEGAPIError {
 
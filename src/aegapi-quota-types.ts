@@ -0,0 +1,12 @@
+// Homebridge plugin for AEG RX 9 / Electrolux Pure i9 robot vacuum
+// Copyright © 2026 Alexander Thoukydides
+
+// Number of Electrolux Group API calls issued during one minute
+export interface APIQuotaBucket {
+    minute:             number; // Minutes since the epoch
+    polls:              number; // Appliance state requests
+    other:              number; // All other requests
+}
+
+// Persistent record of API calls within the rolling window
+export type APIQuotaHistory = APIQuotaBucket[];
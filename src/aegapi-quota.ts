@@ -0,0 +1,140 @@
+// Homebridge plugin for AEG RX 9 / Electrolux Pure i9 robot vacuum
+// Copyright © 2026 Alexander Thoukydides
+
+import { Logger } from 'homebridge';
+
+import nodePersist from 'node-persist';
+import { createHash } from 'crypto';
+import { setTimeout } from 'node:timers/promises';
+
+import { APIQuotaBucket } from './aegapi-quota-types.js';
+import { Config } from './config-types.js';
+import { logError, MS } from './utils.js';
+import { checkers } from './ti/aegapi-quota-types.js';
+
+// Duration of the rolling window used for the daily quota
+export const QUOTA_WINDOW_MS = 24 * 60 * 60 * MS; // (24 hours)
+
+// Granularity of the recorded calls
+const BUCKET_MS = 60 * MS; // (1 minute)
+
+// Delay before saving the call history after a change
+const SAVE_DELAY_MS = 60 * MS; // (1 minute)
+
+// Summary of Electrolux Group API calls within the rolling window
+export interface APIQuotaUsage {
+    polls:      number;
+    other:      number;
+    total:      number;
+}
+
+// Account for Electrolux Group API calls against the daily quota
+export class AEGAPIQuota {
+
+    // Calls issued within the rolling window, oldest first
+    private buckets: APIQuotaBucket[] = [];
+
+    // Name of the key used for persistent storage of the call history
+    private readonly persistKey: string;
+
+    // Is there a pending save of the call history
+    private savePending = false;
+
+    // Promise that is resolved when any saved call history has been restored
+    readonly loaded: Promise<void>;
+
+    // Create a new quota tracker
+    constructor(
+        readonly log:    Logger,
+        readonly config: Config
+    ) {
+        // Identify the account by a hash of its API Key, to avoid storing it in plaintext
+        const hash = createHash('sha256').update(config.apiKey).digest('hex');
+        this.persistKey = `quota:${hash}`;
+        this.loaded = this.load();
+    }
+
+    // Number of calls that can be issued within the rolling window
+    get budget(): number {
+        const { dailyLimit, reservedCalls } = this.config.quota;
+        return Math.max(dailyLimit - reservedCalls, 0);
+    }
+
+    // Number of calls remaining within the rolling window
+    get remaining(): number {
+        return Math.max(this.budget - this.usage.total, 0);
+    }
+
+    // Number of calls issued within the rolling window
+    get usage(): APIQuotaUsage {
+        this.prune();
+        const polls = this.buckets.reduce((sum, bucket) => sum + bucket.polls, 0);
+        const other = this.buckets.reduce((sum, bucket) => sum + bucket.other, 0);
+        return { polls, other, total: polls + other };
+    }
+
+    // Time until the oldest calls drop out of the rolling window
+    get nextExpiry(): number {
+        this.prune();
+        const oldest = this.buckets[0];
+        if (!oldest) return 0;
+        return Math.max((oldest.minute + 1) * BUCKET_MS + QUOTA_WINDOW_MS - Date.now(), 0);
+    }
+
+    // Record a call
+    count(method: string, path: string): void {
+        const minute = Math.floor(Date.now() / BUCKET_MS);
+        let bucket = this.buckets.at(-1);
+        if (bucket?.minute !== minute) {
+            bucket = { minute, polls: 0, other: 0 };
+            this.buckets.push(bucket);
+        }
+        if (method === 'GET' && path.endsWith('/state')) ++bucket.polls;
+        else ++bucket.other;
+        void this.save();
+    }
+
+    // Discard calls that are outside the rolling window
+    prune(): void {
+        const oldest = Math.floor((Date.now() - QUOTA_WINDOW_MS) / BUCKET_MS);
+        const index = this.buckets.findIndex(bucket => oldest < bucket.minute);
+        this.buckets.splice(0, index === -1 ? this.buckets.length : index);
+    }
+
+    // Restore any saved call history, merging it with calls already counted
+    async load(): Promise<void> {
+        try {
+            const history: unknown = await nodePersist.getItem(this.persistKey);
+            if (history === undefined) return;
+            if (!checkers.APIQuotaHistory.test(history)) throw new Error('Unexpected saved API quota format');
+            const buckets = new Map<number, APIQuotaBucket>();
+            for (const bucket of [...history, ...this.buckets]) {
+                const { minute, polls, other } = bucket;
+                const merged = buckets.get(minute) ?? { minute, polls: 0, other: 0 };
+                merged.polls += polls;
+                merged.other += other;
+                buckets.set(minute, merged);
+            }
+            this.buckets = [...buckets.values()].sort((a, b) => a.minute - b.minute);
+            this.prune();
+        } catch (err) {
+            logError(this.log, 'Saved API quota', err);
+        }
+    }
+
+    // Save the call history after a short delay
+    async save(): Promise<void> {
+        if (this.savePending) return;
+        this.savePending = true;
+        try {
+            await setTimeout(SAVE_DELAY_MS, undefined, { ref: false });
+            await this.loaded;
+            this.prune();
+            this.savePending = false;
+            await nodePersist.setItem(this.persistKey, this.buckets);
+        } catch (err) {
+            this.savePending = false;
+            logError(this.log, 'Saving API quota', err);
+        }
+    }
+}
@@ -202,6 +202,27 @@ export interface RX9ApplianceState {
 }
 
 // PUT /api/v1/appliances/{applianceId}/command
-export interface RX9Command {
+export interface RX9CommandCleaning {
     CleaningCommand:    RX9CleaningCommand;
-}
\ No newline at end of file
+}
+export interface RX9CommandMute {
+    mute:               boolean;
+}
+export interface RX9CommandLanguage {
+    language:           string;
+}
+export interface RX9CommandName {
+    applianceName:      string;
+}
+export interface RX91CommandEcoMode {
+    ecoMode:            boolean;
+}
+export interface RX92CommandPowerMode {
+    powerMode:          RX92PowerMode;
+}
+export interface RX92CommandTasks {
+    tasks:              RX92Tasks;
+}
+export type RX9Command =
+    RX9CommandCleaning | RX9CommandMute | RX9CommandLanguage | RX9CommandName
+  | RX91CommandEcoMode | RX92CommandPowerMode | RX92CommandTasks;
\ No newline at end of file
@@ -2,14 +2,21 @@
 // Copyright © 2022-2024 Alexander Thoukydides
 
 import { RX9ApplianceInfo, RX9ApplianceState, RX9CleaningCommand,
-         RX9Command } from './aegapi-rx9-types.js';
+         RX9Command, RX92PowerMode, RX92Task, RX92Tasks } from './aegapi-rx9-types.js';
 import { Appliance, ApplianceId } from './aegapi-types.js';
 import { AEGAuthoriseUserAgent } from './aegapi-ua-auth.js';
+import { UAOptions } from './aegapi-ua.js';
 import { checkers } from './ti/aegapi-rx9-types.js';
 
 // Access to the Electrolux Group API for an AEG RX9.1 or RX9.2 robot vacuum cleaner
 export class AEGAPIRX9 {
 
+    // Appliance model from its info, e.g. 'rx92'
+    private model?: string;
+
+    // Most recent edit of the scheduled tasks
+    private taskEdit: Promise<void> = Promise.resolve();
+
     // Create a new RX9.1 or RX9.2 API
     constructor(
         readonly ua:          AEGAuthoriseUserAgent,
@@ -18,20 +25,124 @@ export class AEGAPIRX9 {
 
     // Get appliance info
     async getApplianceInfo(): Promise<RX9ApplianceInfo> {
-        return this.ua.getJSON(checkers.RX9ApplianceInfo, `/api/v1/appliances/${this.applianceId}/info`);
+        const info = await this.ua.getJSON<RX9ApplianceInfo>(checkers.RX9ApplianceInfo,
+                                                             `/api/v1/appliances/${this.applianceId}/info`);
+        this.model = info.applianceInfo.model;
+        return info;
     }
 
     // Get appliance state
-    async getApplianceState(): Promise<RX9ApplianceState> {
-        return this.ua.getJSON(checkers.RX9ApplianceState, `/api/v1/appliances/${this.applianceId}/state`);
+    async getApplianceState(options?: UAOptions): Promise<RX9ApplianceState> {
+        return this.ua.getJSON(checkers.RX9ApplianceState, `/api/v1/appliances/${this.applianceId}/state`, options);
     }
 
-    // Send command to appliance
+    // Send cleaning command to appliance
     async sendCleaningCommand(CleaningCommand: RX9CleaningCommand, signal?: AbortSignal): Promise<void> {
-        const body: RX9Command = { CleaningCommand };
+        await this.sendCommand({ CleaningCommand }, signal);
+    }
+
+    // Mute or unmute the voice prompts
+    async setMute(mute: boolean, signal?: AbortSignal): Promise<void> {
+        await this.sendCommand({ mute }, signal);
+    }
+
+    // Rename the appliance
+    async setApplianceName(applianceName: string, signal?: AbortSignal): Promise<void> {
+        await this.sendCommand({ applianceName }, signal);
+    }
+
+    // Select the voice prompt language (ISO 639-2 code)
+    async setLanguage(language: string, signal?: AbortSignal): Promise<void> {
+        await this.sendCommand({ language }, signal);
+    }
+
+    // Set the cleaning power mode (RX9.2 only)
+    async setPowerMode(powerMode: RX92PowerMode, signal?: AbortSignal): Promise<void> {
+        await this.sendCommand({ powerMode }, signal);
+    }
+
+    // Set the ECO mode (RX9.1 only)
+    async setEcoMode(ecoMode: boolean, signal?: AbortSignal): Promise<void> {
+        await this.sendCommand({ ecoMode }, signal);
+    }
+
+    // Check whether the appliance supports scheduled tasks (RX9.2 only)
+    async supportsTasks(): Promise<boolean> {
+        this.model ??= (await this.getApplianceInfo()).applianceInfo.model;
+        return this.model.toLowerCase() === 'rx92';
+    }
+
+    // Get the scheduled tasks (RX9.2 only), always reading fresh state
+    async getTasks(signal?: AbortSignal): Promise<RX92Tasks> {
+        if (!await this.supportsTasks()) throw new Error('Scheduled tasks are not supported by this robot');
+        const { reported } = (await this.getApplianceState({ signal, noShare: true })).properties;
+        return ('tasks' in reported ? reported.tasks : undefined) ?? {};
+    }
+
+    // Replace all of the scheduled tasks (RX9.2 only)
+    // (assumes that the API replaces the whole map rather than merging it; this
+    // has only been checked against the mock server, so deletion may not work)
+    async setTasks(tasks: RX92Tasks, signal?: AbortSignal): Promise<void> {
+        await this.sendCommand({ tasks }, signal);
+    }
+
+    // Enable or disable a scheduled task
+    async setTaskEnabled(id: string, enabled: boolean, signal?: AbortSignal): Promise<void> {
+        await this.modifyTasks(tasks => {
+            const task = AEGAPIRX9.getTask(tasks, id);
+            return { ...tasks, [id]: { ...task, enabled } };
+        }, signal);
+    }
+
+    // Create a new scheduled task, returning its identifier
+    async createTask(task: RX92Task, signal?: AbortSignal): Promise<string> {
+        let id = '';
+        await this.modifyTasks(tasks => {
+            const ids = Object.keys(tasks).map(Number).filter(Number.isInteger);
+            id = String(Math.max(0, ...ids) + 1);
+            return { ...tasks, [id]: task };
+        }, signal);
+        return id;
+    }
+
+    // Replace an existing scheduled task
+    async editTask(id: string, task: RX92Task, signal?: AbortSignal): Promise<void> {
+        await this.modifyTasks(tasks => {
+            AEGAPIRX9.getTask(tasks, id);
+            return { ...tasks, [id]: task };
+        }, signal);
+    }
+
+    // Delete a scheduled task
+    async deleteTask(id: string, signal?: AbortSignal): Promise<void> {
+        await this.modifyTasks(tasks => {
+            AEGAPIRX9.getTask(tasks, id);
+            return Object.fromEntries(Object.entries(tasks).filter(([key]) => key !== id));
+        }, signal);
+    }
+
+    // Read, modify, and write the scheduled tasks (one edit at a time)
+    async modifyTasks(modify: (tasks: RX92Tasks) => RX92Tasks, signal?: AbortSignal): Promise<void> {
+        const edit = this.taskEdit.then(async () => {
+            const tasks = await this.getTasks(signal);
+            await this.setTasks(modify(tasks), signal);
+        });
+        this.taskEdit = edit.catch(() => { /* Reported to the caller */ });
+        await edit;
+    }
+
+    // Send command to appliance
+    async sendCommand(body: RX9Command, signal?: AbortSignal): Promise<void> {
         await this.ua.put(`/api/v1/appliances/${this.applianceId}/command`, body, { signal });
     }
 
+    // Find a scheduled task by its identifier
+    static getTask(tasks: RX92Tasks, id: string): RX92Task {
+        const task = tasks[id];
+        if (!task) throw new Error(`Unknown scheduled task "${id}"`);
+        return task;
+    }
+
     // Check whether an appliance is an AEG RX9.1 or RX9.2 robot vacuum cleaner
     static isRX9(appliance: Appliance): boolean {
         return appliance.applianceType === 'PUREi9';
@@ -8,7 +8,7 @@ import { setTimeout } from 'node:timers/promises';
 import { once } from 'node:events';
 
 import { AbsoluteTokens, PostTokenRefresh, PostTokenRevoke, Tokens } from './aegapi-auth-types.js';
-import { AEGUserAgent, Headers, Method, Request, UAOptions } from './aegapi-ua.js';
+import { AEGUserAgent, Headers, Method, Request, RequestResponse, UAOptions } from './aegapi-ua.js';
 import { MS, logError } from './utils.js';
 import { AEGAPIAuthorisationError, AEGAPIError, AEGAPIStatusCodeError } from './aegapi-error.js';
 import { Config } from './config-types.js';
@@ -23,6 +23,9 @@ const REFRESH_RETRY_DELAY_MS = 60 * 1000; // (1 minute)
 // Delay before refreshing a new token (expiresIn is usually 12 hours)
 const NEW_TOKEN_REFRESH_DELAY_MS = 5 * 60 * 1000; // (5 minutes)
 
+// Listener for changes to the authorisation state
+export type AuthorisationListener = (err?: AEGAPIAuthorisationError) => void;
+
 // Authorisation for accessing the Electrolux Group API
 export class AEGAuthoriseUserAgent extends AEGUserAgent {
 
@@ -39,6 +42,10 @@ export class AEGAuthoriseUserAgent extends AEGUserAgent {
     // Name of the key used for persistent storage of the access token
     private readonly persistKey: string;
 
+    // Most recent rejection of the credentials, and listeners for changes
+    private authError?: AEGAPIAuthorisationError;
+    private readonly authListeners = new Set<AuthorisationListener>();
+
     // Create a new authorisation agent
     constructor(log: Logger, config: Config) {
         super(log, config);
@@ -95,6 +102,7 @@ export class AEGAuthoriseUserAgent extends AEGUserAgent {
                 this.log.info('Successfully refreshed access token');
                 await nodePersist.setItem(this.persistKey, this.token);
                 this.authorisedFn.resolve();
+                this.setAuthError();
 
             } catch (cause) {
                 if (cause instanceof AEGAPIStatusCodeError && cause.response
@@ -105,6 +113,7 @@ export class AEGAuthoriseUserAgent extends AEGUserAgent {
                     // HERE - This crashes if nothing is waiting for the promise...
                     this.authorisedFn.reject(err);
                     logError(this.log, 'API authorisation', err);
+                    this.setAuthError(err);
                     return;
                 }
 
@@ -198,15 +207,40 @@ export class AEGAuthoriseUserAgent extends AEGUserAgent {
                 // Unauthorised: Access Token (or Refresh Token) is probably invalid
                 this.triggerRefresh(headers);
                 break;
-            case 403:
+            case 403: {
                 // Forbidden: The API Key is probably invalid
                 if (retry) this.log.warn('Request will not be retried (API Key possibly invalid)');
                 retry = false;
+                const message = 'Request forbidden (API Key possibly invalid)';
+                this.setAuthError(new AEGAPIAuthorisationError(err.request, err.response, message, { cause: err }));
+            }
             }
         }
         return retry;
     }
 
+    // Clear any rejection of the credentials after a successful request
+    async request(method: Method, path: string, options?: UAOptions,
+                  body?: object, headers?: Headers): Promise<RequestResponse> {
+        const result = await super.request(method, path, options, body, headers);
+        this.setAuthError();
+        return result;
+    }
+
+    // Record whether the credentials have been rejected (ignoring repeats of the same rejection)
+    setAuthError(err?: AEGAPIAuthorisationError): void {
+        const describe = (err?: AEGAPIAuthorisationError): string | undefined =>
+            err && `${err.response?.statusCode} ${err.message}`;
+        if (describe(err) === describe(this.authError)) return;
+        this.authError = err;
+        this.authListeners.forEach(listener => { listener(err); });
+    }
+
+    // Register a listener for changes to the authorisation state
+    onAuthorisation(listener: AuthorisationListener): void {
+        this.authListeners.add(listener);
+    }
+
     // Refresh access token and refresh token
     async tokenRefresh(refreshToken: string): Promise<Tokens> {
         const body: PostTokenRefresh = { refreshToken };
@@ -0,0 +1,230 @@
+// Homebridge plugin for AEG RX 9 / Electrolux Pure i9 robot vacuum
+// Copyright © 2026 Alexander Thoukydides
+
+import { Logger } from 'homebridge';
+
+import { createHash } from 'crypto';
+import { mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { setTimeout } from 'node:timers/promises';
+import { Duplex } from 'stream';
+import { Dispatcher, MockAgent, util } from 'undici';
+
+import { APIFixture, APIFixtureHeaders } from './fixture-types.js';
+import { PrefixLogger } from './logger.js';
+import { assertIsDefined, getValidationTree, logError, plural } from './utils.js';
+import { checkers } from './ti/fixture-types.js';
+
+// Delay before writing a fixture, allowing any new appliance IDs to be masked
+const RECORD_DELAY_MS = 1000; // (1 second)
+
+// Record Electrolux Group API requests and responses as redacted fixtures
+export class AEGAPIFixtureRecorder {
+
+    // Prefix for fixture filenames, identifying this session
+    private readonly session = new Date().toISOString().replace(/[-:]|\.\d+/g, '');
+
+    // Number of fixtures that have been recorded
+    private count = 0;
+
+    // Create a new fixture recorder
+    constructor(
+        readonly log:   Logger,
+        readonly dir:   string
+    ) {
+        mkdirSync(dir, { recursive: true });
+        log.warn(`Recording Electrolux Group API fixtures to ${dir}`);
+    }
+
+    // Interceptor to wrap an HTTP client or proxy agent
+    get interceptor(): Dispatcher.DispatcherComposeInterceptor {
+        return dispatch => (opts, handler) => {
+            const record = (response: APIFixture['response']): void => {
+                void this.save(opts, response);
+            };
+            return dispatch(opts, new AEGAPIFixtureRecordHandler(handler, record));
+        };
+    }
+
+    // Write a redacted fixture for a completed request
+    async save(opts: Dispatcher.DispatchOptions, response: APIFixture['response']): Promise<void> {
+        const filename = join(this.dir, `${this.session}-${String(++this.count).padStart(4, '0')}-${opts.method}.json`);
+        const recorded = new Date().toISOString();
+        try {
+            await setTimeout(RECORD_DELAY_MS);
+            const fixture: APIFixture = {
+                recorded,
+                request: {
+                    method:     opts.method,
+                    path:       PrefixLogger.filterSensitive(opts.path),
+                    headers:    redactHeaders(requestHeaders(opts.headers)),
+                    body:       redactBody(typeof opts.body === 'string' ? opts.body : undefined)
+                },
+                response: {
+                    statusCode: response.statusCode,
+                    headers:    redactHeaders(response.headers),
+                    body:       redactBody(response.body as string | undefined)
+                }
+            };
+            writeFileSync(filename, JSON.stringify(fixture, null, 4));
+            this.log.debug(`Recorded fixture ${filename}`);
+        } catch (err) {
+            logError(this.log, 'Recording API fixture', err);
+        }
+    }
+}
+
+// Dispatch handler that captures the response while passing it on unmodified
+class AEGAPIFixtureRecordHandler implements Dispatcher.DispatchHandlers {
+
+    // The response being captured
+    private statusCode = 0;
+    private headers: APIFixtureHeaders = {};
+    private readonly chunks: Buffer[] = [];
+
+    // Create a new handler wrapper
+    constructor(
+        readonly handler:   Dispatcher.DispatchHandlers,
+        readonly record:    (response: APIFixture['response']) => void
+    ) {}
+
+    // Capture the response
+    onHeaders(statusCode: number, headers: Buffer[], resume: () => void, statusText: string): boolean {
+        this.statusCode = statusCode;
+        this.headers = util.parseHeaders(headers);
+        return this.handler.onHeaders?.(statusCode, headers, resume, statusText) ?? true;
+    }
+
+    onData(chunk: Buffer): boolean {
+        this.chunks.push(chunk);
+        return this.handler.onData?.(chunk) ?? true;
+    }
+
+    onComplete(trailers: string[] | null): void {
+        const body = Buffer.concat(this.chunks).toString();
+        this.record({ statusCode: this.statusCode, headers: this.headers, body });
+        this.handler.onComplete?.(trailers);
+    }
+
+    // Pass everything else straight through
+    onConnect(abort: (err?: Error) => void): void                   { this.handler.onConnect?.(abort); }
+    onError(err: Error): void                                       { this.handler.onError?.(err); }
+    onResponseStarted(): void                                       { this.handler.onResponseStarted?.(); }
+    onUpgrade(statusCode: number, headers: Buffer[] | string[] | null, socket: Duplex): void {
+        this.handler.onUpgrade?.(statusCode, headers, socket);
+    }
+
+    onBodySent(chunkSize: number, totalBytesSent: number): void {
+        this.handler.onBodySent?.(chunkSize, totalBytesSent);
+    }
+}
+
+// Replay previously recorded fixtures instead of accessing the network
+export class AEGAPIFixtureReplay {
+
+    // Mock agent that serves the fixtures
+    readonly agent = new MockAgent();
+
+    // Fixtures indexed by request method and path, and the number served
+    private readonly fixtures = new Map<string, APIFixture[]>();
+    private readonly served = new Map<string, number>();
+
+    // Create a new fixture replay agent
+    constructor(
+        readonly log:       Logger,
+        readonly dir:       string,
+        readonly origin:    string
+    ) {
+        this.load();
+        this.agent.disableNetConnect();
+        this.agent.get(origin).intercept({ path: () => true, method: () => true })
+            .reply(({ method, path }) => this.reply(method, path)).persist();
+    }
+
+    // Load all fixtures from the directory
+    load(): void {
+        const checker = checkers.APIFixture;
+        const filenames = readdirSync(this.dir).filter(name => name.endsWith('.json')).sort();
+        for (const filename of filenames) {
+            const fixture = unmaskJSON(JSON.parse(readFileSync(join(this.dir, filename), 'utf8')));
+            checker.setReportedPath(filename);
+            if (!checker.test(fixture)) {
+                this.log.error(`Ignoring invalid Electrolux Group API fixture ${filename}:`);
+                const validation = checker.validate(fixture) ?? [];
+                getValidationTree(validation).forEach(line => { this.log.error(line); });
+            } else {
+                const key = fixtureKey(fixture.request.method, fixture.request.path);
+                this.fixtures.set(key, [...this.fixtures.get(key) ?? [], fixture]);
+            }
+        }
+        this.log.warn(`Replaying ${plural(filenames.length, 'Electrolux Group API fixture')} from ${this.dir}`);
+    }
+
+    // Select the response for a request; fixtures are served in order, repeating the last
+    reply(method: string, path: string): { statusCode: number, data: string, responseOptions: { headers: APIFixtureHeaders } } {
+        const key = fixtureKey(method, path);
+        const fixtures = this.fixtures.get(key);
+        if (!fixtures?.length) {
+            this.log.warn(`No Electrolux Group API fixture for ${method} ${path}`);
+            const data = JSON.stringify({ message: 'Not Found', detail: 'No recorded fixture' });
+            return { statusCode: 404, data, responseOptions: { headers: { 'content-type': 'application/json' } } };
+        }
+        const index = Math.min(this.served.get(key) ?? 0, fixtures.length - 1);
+        this.served.set(key, index + 1);
+        const fixture = fixtures[index];
+        assertIsDefined(fixture);
+        const { statusCode, headers, body } = fixture.response;
+        const data = body === undefined ? '' : (typeof body === 'string' ? body : JSON.stringify(body));
+        return { statusCode, data, responseOptions: { headers: { ...headers, 'content-length': String(Buffer.byteLength(data)) } } };
+    }
+}
+
+// Key used to index fixtures
+function fixtureKey(method: string, path: string): string {
+    return `${method} ${path}`;
+}
+
+// Convert request headers to a simple object
+function requestHeaders(headers: Dispatcher.DispatchOptions['headers']): APIFixtureHeaders {
+    if (!headers || Array.isArray(headers) || Symbol.iterator in headers) return {};
+    return Object.fromEntries(Object.entries(headers).filter(
+        (entry): entry is [string, string | string[]] => entry[1] !== undefined));
+}
+
+// Mask sensitive values in headers
+function redactHeaders(headers: APIFixtureHeaders): APIFixtureHeaders {
+    return PrefixLogger.filterSensitiveJSON(headers) as APIFixtureHeaders;
+}
+
+// Mask sensitive values in a body, parsing it as JSON if possible
+function redactBody(body?: string): unknown {
+    if (!body?.length) return undefined;
+    try {
+        return PrefixLogger.filterSensitiveJSON(JSON.parse(body));
+    } catch {
+        return PrefixLogger.filterSensitive(body);
+    }
+}
+
+// Replace masked appliance identifiers with consistent synthetic values
+function unmaskJSON(value: unknown): unknown {
+    if (typeof value === 'string') {
+        return value
+            .replace(/<PRODUCT_ID: (\d+)\.\.\. "([^"]*)">/g,
+                     (_match, pnc: string, name: string) => `${pnc}${syntheticSerialNumber(name)}0000000`)
+            .replace(/<SERIAL_NUMBER: "([^"]*)">/g,
+                     (_match, name: string) => syntheticSerialNumber(name));
+    } else if (Array.isArray(value)) {
+        return value.map(unmaskJSON);
+    } else if (typeof value === 'object' && value !== null) {
+        return Object.fromEntries(Object.entries(value).map(([key, element]) => [key, unmaskJSON(element)]));
+    } else {
+        return value;
+    }
+}
+
+// Derive a serial number from an appliance name
+function syntheticSerialNumber(name: string): string {
+    const hash = createHash('sha256').update(name).digest();
+    return String(hash.readUInt32BE() % 1e8).padStart(8, '0');
+}
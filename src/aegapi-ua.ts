@@ -4,15 +4,20 @@
 import { Logger, LogLevel } from 'homebridge';
 
 import { STATUS_CODES } from 'http';
-import { Client, Dispatcher } from 'undici';
+import { readFileSync } from 'fs';
+import { Client, Dispatcher, ProxyAgent } from 'undici';
 import { Checker, IErrorDetail } from 'ts-interface-checker';
 import { setTimeout } from 'node:timers/promises';
 import { IncomingHttpHeaders } from 'undici/types/header.js';
 
 import { PLUGIN_NAME, PLUGIN_VERSION } from './settings.js';
-import { AEGAPIError, AEGAPIStatusCodeError, AEGAPIValidationError } from './aegapi-error.js';
-import { columns, getValidationTree, MS } from './utils.js';
+import { AEGAPICircuitOpenError, AEGAPIError, AEGAPIRateLimitError,
+         AEGAPIStatusCodeError, AEGAPIValidationError } from './aegapi-error.js';
+import { assertIsDefined, columns, formatMilliseconds, getValidationTree, MS } from './utils.js';
 import { Config } from './config-types.js';
+import { AEGAPIFixtureRecorder, AEGAPIFixtureReplay } from './aegapi-ua-fixture.js';
+import { AEGAPIQuota } from './aegapi-quota.js';
+import { AEGAPICircuitBreaker } from './aegapi-circuit.js';
 
 export type Binary     = Dispatcher.ResponseData['body'];
 export type Response   = Dispatcher.ResponseData;
@@ -24,6 +29,8 @@ export type Query      = Dispatcher.DispatchOptions['query'];
 export interface UAOptions {
     headers?:           Headers;
     signal?:            AbortSignal;
+    cacheTTL?:          number;     // Milliseconds to reuse a GET response
+    noShare?:           boolean;    // Always issue a new GET request
     [index: string]:    unknown;
 }
 
@@ -51,6 +58,20 @@ export interface RequestResponse {
     response:           Response;
 }
 
+// Successful response with its JSON text
+export interface RequestResponseText extends RequestResponse {
+    text:               string;
+}
+
+// A shared GET request and when its result expires
+interface SharedRequest {
+    promise:            Promise<RequestResponseText>;
+    expires?:           number;
+}
+
+// Listener for changes to the rate limiting state
+export type ThrottleListener = (until?: Date) => void;
+
 // Base URL for Electrolux Group API
 export const ELECTROLUX_GROUP_API_URL = 'https://api.developer.electrolux.one';
 
@@ -68,28 +89,50 @@ export class AEGUserAgent {
         factor:       2.0
     };
 
+    // Maximum number of times that a rate limited request is retried
+    readonly maxRateLimitRetries = 3;
+
+    // Default time to reuse a completed GET response
+    readonly cacheTTL = 1 * MS; // 1 second
+
     // Default headers to include in all requests
     private readonly defaultHeaders: Headers;
 
-    // HTTP client used to issue the requests
-    private readonly client: Client;
+    // Base URL (origin) and any path prefix for all requests
+    readonly baseURL: string;
+    readonly basePath: string;
+
+    // HTTP client (or proxy agent) used to issue the requests
+    private readonly client: Dispatcher;
 
     // Number of requests that have been issued
     private requestCount = 0;
 
+    // Accounting of requests against the daily quota
+    readonly quota: AEGAPIQuota;
+
+    // Suspension of requests during server outages
+    readonly circuit: AEGAPICircuitBreaker;
+
+    // In-flight and recently completed GET requests
+    private readonly sharedRequests = new Map<string, SharedRequest>();
+
+    // Time until which all requests are paused due to rate limiting
+    private throttledUntil = 0;
+    private readonly throttleListeners = new Set<ThrottleListener>();
+
     // Create a new user agent
     constructor(
         readonly log:    Logger,
         readonly config: Config
     ) {
         // Create an HTTP client
-        this.client = new Client(ELECTROLUX_GROUP_API_URL, {
-            bodyTimeout:    this.timeout,
-            headersTimeout: this.timeout,
-            connect: {
-                timeout:    this.timeout
-            }
-        });
+        const url = new URL(config.apiURL ?? ELECTROLUX_GROUP_API_URL);
+        this.baseURL = url.origin;
+        this.basePath = url.pathname.replace(/\/+$/, '');
+        this.client = this.makeClient();
+        this.quota = new AEGAPIQuota(log, config);
+        this.circuit = new AEGAPICircuitBreaker(log);
 
         // Set the default headers
         this.defaultHeaders = {
@@ -98,6 +141,58 @@ export class AEGUserAgent {
         };
     }
 
+    // Are API fixtures being replayed instead of issuing real requests
+    get isReplaying(): boolean {
+        return this.config.debug.includes('Replay API Fixtures');
+    }
+
+    // Create an HTTP client, optionally recording or replaying API fixtures
+    makeClient(): Dispatcher {
+        const { debug, fixturesDir } = this.config;
+        if (this.isReplaying) {
+            assertIsDefined(fixturesDir);
+            return new AEGAPIFixtureReplay(this.log, fixturesDir, this.baseURL).agent;
+        }
+        const client = this.makeNetworkClient();
+        if (debug.includes('Record API Fixtures')) {
+            assertIsDefined(fixturesDir);
+            return client.compose(new AEGAPIFixtureRecorder(this.log, fixturesDir).interceptor);
+        }
+        return client;
+    }
+
+    // Create an HTTP client or proxy agent using the configured connection options
+    makeNetworkClient(): Dispatcher {
+        // Non-default server, proxy, or certificate authorities
+        if (this.baseURL !== ELECTROLUX_GROUP_API_URL || this.basePath)
+            this.log.warn(`Using alternative Electrolux Group API server ${this.baseURL}${this.basePath}`);
+        const ca = this.config.caFiles?.map(file => {
+            this.log.info(`Trusting CA certificates from ${file}`);
+            return readFileSync(file, 'utf8');
+        });
+        const tls = { timeout: this.timeout, ...(ca && { ca }) };
+        const options = { bodyTimeout: this.timeout, headersTimeout: this.timeout };
+
+        // Connect via a proxy if one has been configured
+        const { proxy } = this.config;
+        if (proxy) {
+            const { username, password } = proxy;
+            const proxyURL = new URL(proxy.url);
+            this.log.info(`Using proxy ${proxyURL.origin}` + (username ? ` as ${username}` : ''));
+            const credentials = username && Buffer.from(`${username}:${password ?? ''}`).toString('base64');
+            return new ProxyAgent({
+                ...options,
+                uri:        proxy.url,
+                token:      credentials ? `Basic ${credentials}` : undefined,
+                proxyTls:   tls,
+                requestTls: tls
+            });
+        }
+
+        // Otherwise connect directly
+        return new Client(this.baseURL, { ...options, connect: tls });
+    }
+
     // Requests that expect an empty response
     put   (path: string, body: object, options?: UAOptions): Promise<void> { return this.requestEmpty('PUT',    path, options, body); }
     post  (path: string, body: object, options?: UAOptions): Promise<void> { return this.requestEmpty('POST',   path, options, body); }
@@ -113,20 +208,7 @@ export class AEGUserAgent {
     putJSON  <Type>(checker: Checker, path: string, body: object, options?: UAOptions): Promise<Type> { return this.requestJSON(checker, 'PUT',   path, options, body     ); }
     postJSON <Type>(checker: Checker, path: string, body: object, options?: UAOptions): Promise<Type> { return this.requestJSON(checker, 'POST',  path, options, body     ); }
     async requestJSON<Type>(checker: Checker, ...params: RequestParams): Promise<Type> {
-        const { request, response } = await this.request(...params, { Accept: 'application/json' });
-
-        // Check that the response was not empty
-        if (response.statusCode === 204)
-            throw new AEGAPIError(request, response, 'Unexpected empty response (status code 204 No Content)');
-
-        // Retrieve the response as JSON text
-        let text;
-        const contentType = response.headers['content-type'];
-        if (typeof contentType === 'string' && contentType.startsWith('application/json')) {
-            text = await response.body.text();
-        } else {
-            throw new AEGAPIError(request, response, `Unexpected response content-type (${JSON.stringify(contentType)})`);
-        }
+        const { request, response, text } = await this.requestJSONTextShared(...params);
 
         // Parse the response as JSON
         let json: unknown;
@@ -155,28 +237,97 @@ export class AEGUserAgent {
         return json as Type;
     }
 
+    // Share identical concurrent GET requests, and briefly reuse their responses
+    requestJSONTextShared(...params: RequestParams): Promise<RequestResponseText> {
+        // Only share GET requests that cannot be individually aborted
+        const [method, path, options] = params;
+        if (method !== 'GET' || options?.signal || options?.noShare) return this.requestJSONText(...params);
+
+        // Reuse any matching request that is in-flight or has not expired
+        const key = JSON.stringify([path, options?.headers ?? {}]);
+        const shared = this.sharedRequests.get(key);
+        if (shared && (shared.expires === undefined || Date.now() < shared.expires)) {
+            this.log.debug(`Sharing response to ${method} ${path}`);
+            return shared.promise;
+        }
+
+        // Issue a new request, retaining successful responses until they expire
+        const entry: SharedRequest = { promise: this.requestJSONText(...params) };
+        this.sharedRequests.set(key, entry);
+        const cacheTTL = options?.cacheTTL ?? this.cacheTTL;
+        const remove = (): void => {
+            if (this.sharedRequests.get(key) === entry) this.sharedRequests.delete(key);
+        };
+        entry.promise.then(() => {
+            if (cacheTTL) entry.expires = Date.now() + cacheTTL;
+            else remove();
+        }, remove);
+        return entry.promise;
+    }
+
+    // Stop sharing any GET requests (e.g. after a command changes state)
+    expireSharedRequests(): void {
+        // In-flight requests may have been issued before the change, so are not joined either
+        this.sharedRequests.clear();
+    }
+
+    // Issue a request and retrieve its response as JSON text
+    async requestJSONText(...params: RequestParams): Promise<RequestResponseText> {
+        const { request, response } = await this.request(...params, { Accept: 'application/json' });
+
+        // Check that the response was not empty
+        if (response.statusCode === 204)
+            throw new AEGAPIError(request, response, 'Unexpected empty response (status code 204 No Content)');
+
+        // Retrieve the response as JSON text
+        const contentType = response.headers['content-type'];
+        if (typeof contentType === 'string' && contentType.startsWith('application/json')) {
+            return { request, response, text: await response.body.text() };
+        } else {
+            throw new AEGAPIError(request, response, `Unexpected response content-type (${JSON.stringify(contentType)})`);
+        }
+    }
+
     // Construct and issue a request, retrying if appropriate
     async request(method: Method, path: string, options?: UAOptions,
                   body?: object, headers?: Headers): Promise<RequestResponse> {
         // Request counters
         let requestCount: number | undefined;
         let retryCount = 0;
+        let rateLimitCount = 0;
         let retryDelay = this.retryDelay.min;
 
+        // Any other method may change state, so stop sharing earlier GET requests
+        if (method !== 'GET') this.expireSharedRequests();
+
         for (;;) {
             try {
-                // Attempt the request
+                // Attempt the request (after any rate limit window reopens)
                 const request = await this.prepareRequest(method, path, options, body, headers);
+                await this.waitUntilUnthrottled(options?.signal);
                 requestCount ??= ++this.requestCount;
                 const counter = `${requestCount}` + (retryCount ? `.${retryCount}` : '');
-                const response = await this.requestCore(`Electrolux Group API #${counter}:`, request);
+                this.circuit.admit(request);
+                let response: Response;
+                try {
+                    response = await this.requestCore(`Electrolux Group API #${counter}:`, request);
+                } catch (err) {
+                    this.circuit.record(request, err);
+                    throw err;
+                }
+                this.circuit.record(request);
                 return { request, response };
             } catch (err) {
                 // Request failed, so check whether it can be retried
                 if (!this.canRetry(err, options)) throw err;
+                if (err instanceof AEGAPIRateLimitError && this.maxRateLimitRetries <= rateLimitCount++) {
+                    this.log.warn(`Request will not be retried (rate limited ${rateLimitCount} times)`);
+                    throw err;
+                }
                 ++retryCount;
 
-                // Delay before trying again
+                // Delay before trying again (rate limited requests wait for the window)
+                if (err instanceof AEGAPIRateLimitError) continue;
                 await setTimeout(retryDelay, undefined, { signal: options?.signal });
                 retryDelay = Math.min(retryDelay * this.retryDelay.factor, this.retryDelay.max);
             }
@@ -203,6 +354,12 @@ export class AEGUserAgent {
         // Do not retry the request unless the failure was an API error
         if (!(err instanceof AEGAPIError)) return false;
 
+        // Rate limited requests were not processed, so can always be retried
+        if (err instanceof AEGAPIRateLimitError) return true;
+
+        // Requests are not retried while the servers are unavailable
+        if (err instanceof AEGAPICircuitOpenError) return false;
+
         // Only retry methods that are idempotent
         if (!err.request.idempotent) {
             this.log.warn(`Request will not be retried (${err.request.method} is not idempotent)`);
@@ -233,7 +390,9 @@ export class AEGUserAgent {
                 this.log.debug(`${logPrefix} ${request.method} ${request.path}`);
                 this.logHeaders(`${logPrefix} Request`, request.headers);
                 this.logBody(`${logPrefix} Request`, request.body);
-                response = await this.client.request(request);
+                if (!this.isReplaying) this.quota.count(request.method, request.path);
+                const path = this.basePath + request.path;
+                response = await this.client.request({ origin: this.baseURL, ...request, path });
                 this.logHeaders(`${logPrefix} Response`, response.headers);
             } catch (cause) {
                 status = `ERROR: ${String(cause)}`;
@@ -246,8 +405,11 @@ export class AEGUserAgent {
             if (statusCode < 200 || 300 <= statusCode) {
                 const text = await response.body.text();
                 this.logBody(`${logPrefix} Response`, text);
-                const err = new AEGAPIStatusCodeError(request, response, text);
+                const err = statusCode === 429
+                            ? new AEGAPIRateLimitError(request, response, text)
+                            : new AEGAPIStatusCodeError(request, response, text);
                 status += ` ${err.message}`;
+                if (err instanceof AEGAPIRateLimitError) this.throttle(err.retryAfter);
                 throw err;
             }
 
@@ -262,6 +424,37 @@ export class AEGUserAgent {
         }
     }
 
+    // Pause all requests until the rate limit window reopens
+    throttle(retryAfter: number): void {
+        // Always wait a minimum time, even if the server suggests otherwise
+        retryAfter = Math.max(retryAfter, this.retryDelay.min);
+        const until = Date.now() + retryAfter;
+        if (until <= this.throttledUntil) return;
+        if (!this.throttledUntil) {
+            this.log.warn('Electrolux Group API rate limit exceeded; pausing all requests for '
+                          + formatMilliseconds(retryAfter));
+        }
+        this.throttledUntil = until;
+        this.throttleListeners.forEach(listener => { listener(new Date(until)); });
+    }
+
+    // Wait until any rate limit window has reopened
+    async waitUntilUnthrottled(signal?: AbortSignal): Promise<void> {
+        for (let delay; 0 < (delay = this.throttledUntil - Date.now());) {
+            await setTimeout(delay, undefined, { signal });
+        }
+        if (this.throttledUntil) {
+            this.throttledUntil = 0;
+            this.log.info('Electrolux Group API rate limit window has reopened; resuming requests');
+            this.throttleListeners.forEach(listener => { listener(); });
+        }
+    }
+
+    // Register a listener for changes to the rate limiting state
+    onThrottle(listener: ThrottleListener): void {
+        this.throttleListeners.add(listener);
+    }
+
     // Log request or response headers
     logHeaders(name: string, headers: Headers): void {
         if (!this.config.debug.includes('Log API Headers')) return;
@@ -3,18 +3,69 @@
 
 // Interval between polling for status changes
 export interface PollIntervals {
-    statusSeconds:          number;
+    statusSeconds:          number;     // Active (or any other state)
+    idleSeconds:            number;     // Idle on the charging dock
+    disconnectedSeconds:    number;     // Not connected to the cloud servers
+}
+
+// Daily Electrolux Group API quota
+export interface QuotaConfig {
+    dailyLimit:             number;
+    reservedCalls:          number;
+}
+
+// HTTP(S) proxy used to access the Electrolux Group API
+export interface ProxyConfig {
+    url:                    string;
+    username?:              string;
+    password?:              string;
+}
+
+// Expected lifetimes of consumable parts, in hours of cleaning
+export interface ConsumablesConfig {
+    filterHours:            number;
+    mainBrushHours:         number;
+    sideBrushesHours:       number;
+}
+
+// Days of the week
+export type Weekday = 'Sunday' | 'Monday' | 'Tuesday' | 'Wednesday'
+                    | 'Thursday' | 'Friday' | 'Saturday';
+
+// A period during which the robot should not start cleaning
+export interface QuietHoursConfig {
+    days?:                  Weekday[];  // Day on which the period starts (default every day)
+    start:                  string;     // Local time, e.g. '22:00'
+    end:                    string;     // Local time, may be on the following day
+}
+
+// Handling of requests to start cleaning during quiet hours
+export type QuietHoursAction = 'reject' | 'defer';
+
+// Settings for an individual robot vacuum cleaner, identified by its name
+export interface RobotConfig {
+    name:                   string;
+    language?:              string;     // ISO 639-2 code, e.g. 'eng'
+    queueMinutes?:          number;     // Expiry of commands queued while unreachable
+    quietHours?:            QuietHoursConfig[];
+    quietHoursAction?:      QuietHoursAction;
+    quietHoursMute?:        boolean;    // Mute voice prompts during quiet hours
 }
 
 // Services that can be hidden
 export type HideService = 'Battery' | 'Contact Sensor' | 'Fan'
                         | 'Filter Maintenance' | 'Occupancy Sensor'
-                        | 'Switch Clean' | 'Switch Home';
+                        | 'Switch Clean' | 'Switch Home' | 'Switch Quiet Hours';
+
+// Additional services that must be enabled explicitly
+export type ShowService = 'Consumables' | 'Leak Sensor' | 'Switch Activity'
+                        | 'Switch Mute' | 'Switch Tasks';
 
 // Debugging features
 export type DebugFeatures = 'Run API Tests' | 'Run Unsafe API Tests'
                           | 'Log API Headers' | 'Log API Bodies'
-                          | 'Log Appliance IDs' | 'Log Debug as Info';
+                          | 'Log Appliance IDs' | 'Log Debug as Info'
+                          | 'Record API Fixtures' | 'Replay API Fixtures';
 
 // The user plugin configuration
 export interface Config {
@@ -24,7 +75,16 @@ export interface Config {
     apiKey:                 string;
     accessToken:            string;
     refreshToken:           string;
+    apiURL?:                string;
+    proxy?:                 ProxyConfig;
+    caFiles?:               string[];
     pollIntervals:          PollIntervals;
+    quota:                  QuotaConfig;
+    consumables:            ConsumablesConfig;
+    robots:                 RobotConfig[];
+    syncNames:              boolean;
+    showServices:           ShowService[];
     hideServices:           HideService[];
     debug:                  DebugFeatures[];
+    fixturesDir?:           string;
 }
\ No newline at end of file
@@ -0,0 +1,29 @@
+// Homebridge plugin for AEG RX 9 / Electrolux Pure i9 robot vacuum
+// Copyright © 2026 Alexander Thoukydides
+
+// HTTP headers (with sensitive values redacted)
+export interface APIFixtureHeaders {
+    [index: string]:    string | string[];
+}
+
+// A recorded Electrolux Group API request
+export interface APIFixtureRequest {
+    method:             string;     // e.g. 'GET'
+    path:               string;     // e.g. '/api/v1/appliances'
+    headers:            APIFixtureHeaders;
+    body?:              unknown;    // Parsed JSON, or text if not JSON
+}
+
+// A recorded Electrolux Group API response
+export interface APIFixtureResponse {
+    statusCode:         number;     // e.g. 200
+    headers:            APIFixtureHeaders;
+    body?:              unknown;    // Parsed JSON, or text if not JSON
+}
+
+// A recorded Electrolux Group API request and its response
+export interface APIFixture {
+    recorded:           string;     // e.g. '2024-12-04T12:34:56.789Z'
+    request:            APIFixtureRequest;
+    response:           APIFixtureResponse;
+}
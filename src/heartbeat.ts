@@ -17,49 +17,96 @@ export class Heartbeat {
     // Abort signal used to stop a watchdog
     abortController?: AbortController;
 
+    // Abort signal used to reschedule the next action
+    private waitAbortController?: AbortController;
+
     // The result of the last action
     lastError: unknown;
 
+    // Interval between actions
+    private currentInterval: number;
+
+    // Completion of the last action, and of the last successful action
+    private lastAction = 0;
+    private lastSuccess = Date.now();
+
     // Create a new periodic action
     constructor(
         readonly log:       Logger,
         readonly name:      string,
-        readonly interval:  number,
+        interval:           number,
         readonly action:     () => Promise<void>,
         readonly failure:   (err?: unknown) => void
     ) {
+        this.currentInterval = interval;
         void this.doAction();
         void this.resetWatchdog();
     }
 
+    // Interval between actions (can be changed while running)
+    get interval(): number {
+        return this.currentInterval;
+    }
+
+    set interval(interval: number) {
+        if (interval === this.currentInterval) return;
+        this.currentInterval = interval;
+
+        // Reschedule the next action and the watchdog timeout
+        this.waitAbortController?.abort();
+        void this.startWatchdog();
+    }
+
     // Perform the action periodically indefinitely
     async doAction(): Promise<never> {
         for (;;) {
             try {
                 await this.action();
+                this.lastSuccess = Date.now();
                 void this.resetWatchdog();
             } catch (err) {
                 logError(this.log, this.name, err);
                 this.lastError = err;
             }
-            await setTimeout(this.interval);
+            this.lastAction = Date.now();
+            await this.waitForNextAction();
+        }
+    }
+
+    // Wait until the next action is due, allowing for changes of interval
+    async waitForNextAction(): Promise<void> {
+        for (;;) {
+            this.waitAbortController = new AbortController();
+            const { signal } = this.waitAbortController;
+            const delay = Math.max(this.lastAction + this.interval - Date.now(), 0);
+            try {
+                await setTimeout(delay, undefined, { signal });
+                return;
+            } catch { /* empty */ }
         }
     }
 
     // Reset the timeout
     async resetWatchdog(): Promise<void> {
+        // Indicate any previous timeout as cleared
+        if (this.lastError) {
+            this.lastError = undefined;
+            this.failure();
+        }
+        await this.startWatchdog();
+    }
+
+    // Start a new watchdog, timing out relative to the last successful action
+    async startWatchdog(): Promise<void> {
         try {
-            // Kill any previous watchdog, indicating any previous timeout as cleared
+            // Kill any previous watchdog
             this.abortController?.abort();
-            if (this.lastError) {
-                this.lastError = undefined;
-                this.failure();
-            }
 
             // Start a new watchdog
             this.abortController = new AbortController();
             const { signal } = this.abortController;
-            await setTimeout(this.interval * TIMEOUT_MULTIPLE + TIMEOUT_OFFSET, undefined, { signal });
+            const timeout = this.lastSuccess + this.interval * TIMEOUT_MULTIPLE + TIMEOUT_OFFSET - Date.now();
+            await setTimeout(Math.max(timeout, 0), undefined, { signal });
 
             // The timeout has occurred, so report the failure
             this.lastError ??= new Error(`${this.name} watchdog timeout`);
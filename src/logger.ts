@@ -26,7 +26,7 @@ export class PrefixLogger {
     // Create a new logger
     constructor(
         readonly logger:    Logger,
-        readonly prefix?:   string
+        public prefix?:     string
     ) {}
 
     // Wrappers around the standard Logger methods
@@ -58,6 +58,21 @@ export class PrefixLogger {
             message.replace(regex, filter), message);
     }
 
+    // Attempt to filter sensitive data within a parsed JSON value
+    static filterSensitiveJSON(value: unknown, key?: string): unknown {
+        if (typeof value === 'string') {
+            return key?.toLowerCase() === 'refreshtoken'
+                   ? maskRefreshToken(value) : PrefixLogger.filterSensitive(value);
+        } else if (Array.isArray(value)) {
+            return value.map(element => PrefixLogger.filterSensitiveJSON(element));
+        } else if (typeof value === 'object' && value !== null) {
+            return Object.fromEntries(Object.entries(value).map(([key, element]) =>
+                [key, PrefixLogger.filterSensitiveJSON(element, key)]));
+        } else {
+            return value;
+        }
+    }
+
     // Add an applianceId to filter
     static addApplianceId(applianceId: string, name?: string): void {
         if (applianceIds.has(applianceId)) return;
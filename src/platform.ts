@@ -110,6 +110,7 @@ export class AEGPlatform implements DynamicPlatformPlugin {
         }
 
         // Use the validated configuration
+        config.fixturesDir ??= Path.join(this.hb.user.storagePath(), PLUGIN_NAME, 'fixtures');
         this.config = config;
         if (this.config.debug.includes('Log Debug as Info')) this.log.logDebugAsInfo();
     }
@@ -26,21 +26,36 @@ export const PLUGIN_VERSION = PACKAGE.version;
 // Required Homebridge API version
 export const REQUIRED_HOMEBRIDGE_API = '^2.7';
 
-// Daily API rate limit, and lower value to use for polling
+// Daily API rate limit, and the fraction of it to use for polling
 export const API_DAILY_LIMIT = 5000;
-export const API_DAILY_POLL_LIMIT = API_DAILY_LIMIT * 0.9;
+export const API_POLL_FRACTION = 0.9;
 
 // Default configuration options
 export const DEFAULT_CONFIG: Partial<Config> = {
     pollIntervals: {
         // API limit of 5000 calls/day
-        statusSeconds:          30 // 2880 calls/day per robot vacuum cleaner
+        statusSeconds:          30,     // 2880 calls/day per robot vacuum cleaner
+        idleSeconds:            300,    //  288 calls/day while idle on the dock
+        disconnectedSeconds:    600     //  144 calls/day while disconnected
     },
+    quota: {
+        dailyLimit:             API_DAILY_LIMIT,
+        reservedCalls:          0 // Calls/day used by other clients with the same API Key
+    },
+    consumables: {
+        filterHours:            150,
+        mainBrushHours:         300,
+        sideBrushesHours:       200
+    },
+    robots:                     [],
+    syncNames:                  false,
+    showServices:               [],
     hideServices:               [],
     debug:                      []
 };
 
 // Allow API and authorization credentials to be set via environment variables
+if (process.env.ELECTROLUX_API_URL)       DEFAULT_CONFIG.apiURL       = process.env.ELECTROLUX_API_URL;
 if (process.env.ELECTROLUX_API_KEY)       DEFAULT_CONFIG.apiKey       = process.env.ELECTROLUX_API_KEY;
 if (process.env.ELECTROLUX_ACCESS_TOKEN)  DEFAULT_CONFIG.accessToken  = process.env.ELECTROLUX_ACCESS_TOKEN;
 if (process.env.ELECTROLUX_REFRESH_TOKEN) DEFAULT_CONFIG.refreshToken = process.env.ELECTROLUX_REFRESH_TOKEN;
\ No newline at end of file
@@ -6,7 +6,7 @@ import { Logger } from 'homebridge';
 import { IErrorDetail } from 'ts-interface-checker';
 import assert from 'assert';
 
-import { AEGAPIError } from './aegapi-error.js';
+import { AEGAPICircuitOpenError, AEGAPIError } from './aegapi-error.js';
 
 // Milliseconds in a second
 export const MS = 1000;
@@ -35,6 +35,12 @@ export function assertIsBoolean(value: unknown): asserts value is boolean {
 // Log an error
 export function logError(log: Logger, when: string, err: unknown): void {
     try {
+        // Requests suspended during an outage are reported when it starts
+        if (err instanceof AEGAPICircuitOpenError) {
+            log.debug(`[${when}] ${err.message}`);
+            return;
+        }
+
         // Log the error message itself
         log.error(`[${when}] ${String(err)}`);
 